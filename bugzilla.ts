@@ -0,0 +1,234 @@
+import * as fs from "fs";
+import {
+    BotsTestResults,
+    groupTestHistoriesForReport,
+    LoadedContext,
+    TestExpectation,
+    TestHistory,
+    ToStringMode
+} from "./main";
+import {GardenerConfig, TestContext} from "./contexts";
+import {httpGet, writeFileAtomically} from "./fetch-results";
+import {loadExpectationFile} from "./parse-expectations";
+import {sortedBy} from "./functional-utils";
+
+export interface Bug {
+    id: number;
+    summary: string;
+    status: string; // e.g. "NEW" or "RESOLVED"
+    resolution: string; // e.g. "FIXED", empty for open bugs
+    component: string;
+    assignee: string;
+}
+
+export type BugDatabase = Map<number, Bug>;
+
+// Bugs are requested in batches to keep the URLs short.
+const bugsPerRequest = 100;
+const bugFields = ["id", "summary", "status", "resolution", "component", "assigned_to"];
+
+/**
+ * Reads bugs in the format of the Bugzilla REST API, `{"bugs": [{"id": ..., "summary": ..., ...}]}`, which is also
+ * what `/rest/bug?id=...` returns, so an export can be made by saving that response.
+ */
+export function parseBugzillaJson(filePath: string, jsonText: string): Bug[] {
+    const root = JSON.parse(jsonText);
+    if (!root || !Array.isArray(root.bugs)) {
+        throw new Error(`${filePath}: expected an object with a "bugs" array`);
+    }
+    return root.bugs.map((bug: any, index: number): Bug => {
+        if (!bug || typeof bug.id != "number" || typeof bug.status != "string") {
+            throw new Error(`${filePath}: bugs[${index}] must have a numeric "id" and a "status"`);
+        }
+        return {
+            id: bug.id,
+            summary: bug.summary || "",
+            status: bug.status,
+            resolution: bug.resolution || "",
+            component: bug.component || "",
+            assignee: bug.assigned_to || "",
+        };
+    });
+}
+
+/**
+ * Returns null if there is no bug metadata, features depending on it are just disabled in that case.
+ */
+export function loadBugs(bugsPath: string): BugDatabase | null {
+    if (!fs.existsSync(bugsPath)) {
+        return null;
+    }
+    const bugs = new Map<number, Bug>();
+    for (let bug of parseBugzillaJson(bugsPath, fs.readFileSync(bugsPath, "utf-8"))) {
+        bugs.set(bug.id, bug);
+    }
+    return bugs;
+}
+
+export function isBugResolved(bug: Bug): boolean {
+    return bug.status == "RESOLVED" || bug.status == "VERIFIED" || bug.status == "CLOSED";
+}
+
+/**
+ * Returns the bugs of the file as they were downloaded, or none if there is no file.
+ */
+function readRawBugs(bugsPath: string): any[] {
+    if (!fs.existsSync(bugsPath)) {
+        return [];
+    }
+    const jsonText = fs.readFileSync(bugsPath, "utf-8");
+    parseBugzillaJson(bugsPath, jsonText); // validate
+    return JSON.parse(jsonText).bugs;
+}
+
+/**
+ * Downloads the metadata of every bug mentioned in the TestExpectations files of the contexts into
+ * `config.bugsPath`. Does nothing if there is no Bugzilla URL in the configuration.
+ *
+ * Bug metadata is a nicety, so this is best-effort: batches that fail are reported as warnings and their bugs are kept
+ * from the previous download. Bugs that can't be read (private or deleted) are reported instead of failing the whole
+ * batch, thanks to `permissive=1`.
+ */
+export async function fetchBugs(config: GardenerConfig, contexts: TestContext[]) {
+    if (config.bugzillaUrl == null) {
+        return;
+    }
+    const bugIds = new Set<number>();
+    for (let context of contexts) {
+        for (let expectationPath of context.testExpectationPaths) {
+            const filePath = `${context.expectationsDir}/${expectationPath}`;
+            if (!fs.existsSync(filePath)) {
+                continue;
+            }
+            for (let expectation of loadExpectationFile(context.expectationsDir, expectationPath).expectations) {
+                expectation.bugIds.forEach(bugId => bugIds.add(bugId));
+            }
+        }
+    }
+
+    const sortedBugIds = Array.from(bugIds).sort((a, b) => a - b);
+    const bugs = new Array<any>();
+    const failedBugIds = new Set<number>();
+    const unreadableBugIds = new Array<number>();
+    for (let i = 0; i < sortedBugIds.length; i += bugsPerRequest) {
+        const batch = sortedBugIds.slice(i, i + bugsPerRequest);
+        const url = `${config.bugzillaUrl}/bug?id=${batch.join(",")}&include_fields=${bugFields.join(",")}&permissive=1`;
+        try {
+            const response = await httpGet(url, {"Accept": "application/json"});
+            if (response.statusCode != 200) {
+                throw new Error(`HTTP ${response.statusCode} for ${url}`);
+            }
+            const responseText = response.body.toString("utf-8");
+            parseBugzillaJson(url, responseText); // validate
+            const root = JSON.parse(responseText);
+            bugs.push(...root.bugs);
+            if (Array.isArray(root.faults)) {
+                unreadableBugIds.push(...root.faults.map((fault: any) => fault.id));
+            }
+        } catch (e) {
+            console.warn(`bugs: warning: ${e.message}`);
+            batch.forEach(bugId => failedBugIds.add(bugId));
+        }
+    }
+
+    if (unreadableBugIds.length > 0) {
+        console.warn(`bugs: warning: no access to bugs ${unreadableBugIds.join(", ")} (private or deleted?)`);
+    }
+    if (failedBugIds.size > 0 && failedBugIds.size == sortedBugIds.length) {
+        console.warn(`bugs: warning: nothing downloaded, keeping the previous ${config.bugsPath}`);
+        return;
+    } else if (failedBugIds.size > 0) {
+        let previousBugs: any[];
+        try {
+            previousBugs = readRawBugs(config.bugsPath);
+        } catch (e) {
+            console.warn(`bugs: warning: ${e.message}`);
+            previousBugs = [];
+        }
+        bugs.push(...previousBugs.filter(bug => failedBugIds.has(bug.id)));
+        console.warn(`bugs: warning: could not download ${failedBugIds.size} bugs, keeping what ${
+            config.bugsPath} had for them`);
+    }
+    writeFileAtomically(config.bugsPath, JSON.stringify({bugs: bugs}, null, 2) + "\n");
+    console.log(`bugs: ${bugs.length} of ${sortedBugIds.length} found`);
+}
+
+/**
+ * Returns the summaries of the bugs of the expectation that are still open, e.g. to tell what is known about a test
+ * that keeps failing.
+ */
+export function openBugSummaries(bugs: BugDatabase | null, expectation: TestExpectation | null): string[] {
+    if (!bugs || !expectation) {
+        return [];
+    }
+    return expectation.bugIds
+        .map(bugId => bugs.get(bugId))
+        .filter(bug => bug && !isBugResolved(bug))
+        .map(bug => bug!.summary);
+}
+
+export type BugGroupField = "component" | "assignee";
+
+/**
+ * Groups the tests by the component or assignee of the first bug of their expectation that is known. Groups are
+ * sorted by name, followed by tests whose bugs are not in the database and tests without a bug. Tests within each
+ * group come in the same order as in the report grouped by outcome.
+ */
+export function groupTestHistoriesByBug(botTestsResults: BotsTestResults, testHistories: TestHistory[],
+                                        bugs: BugDatabase, field: BugGroupField): [string, TestHistory[]][] {
+    const noBug = "No bug";
+    const unknownBug = "Bug not in the database";
+    const groups = new Map<string, TestHistory[]>();
+    for (let [_, outcomeHistories] of groupTestHistoriesForReport(botTestsResults, testHistories)) {
+        for (let testHistory of outcomeHistories) {
+            const bugIds = testHistory.expectation ? testHistory.expectation.bugIds : [];
+            const bug = bugIds.map(bugId => bugs.get(bugId)).find(bug => bug != undefined);
+            const key = bug ? (field == "component" ? bug.component : bug.assignee) || `No ${field}`
+                : bugIds.length > 0 ? unknownBug : noBug;
+            groups.set(key, (groups.get(key) || []).concat(testHistory));
+        }
+    }
+    return sortedBy(groups.entries(), ([key, _]) => [key == noBug ? 2 : key == unknownBug ? 1 : 0, key]);
+}
+
+export interface ResolvedBugExpectation {
+    expectation: TestExpectation;
+    bugs: Bug[];
+}
+
+/**
+ * Finds the expectations of the contexts whose bugs are all resolved: either the tests were fixed and the line can go,
+ * or they should be re-tested. Expectations without bugs, or with bugs missing from the database, are not reported.
+ */
+export function findResolvedBugExpectations(loadedContexts: LoadedContext[],
+                                            bugs: BugDatabase): ResolvedBugExpectation[] {
+    // Several contexts share the same files, so expectations are identified by their location.
+    const found = new Map<string, ResolvedBugExpectation>();
+    for (let {expectationFiles} of loadedContexts) {
+        for (let file of expectationFiles) {
+            for (let expectation of file.expectations) {
+                const expectationBugs = expectation.bugIds.map(bugId => bugs.get(bugId));
+                const allResolved = expectationBugs.every(bug => bug != undefined && isBugResolved(bug));
+                if (expectationBugs.length > 0 && allResolved) {
+                    found.set(expectation.location(), {expectation: expectation, bugs: expectationBugs as Bug[]});
+                }
+            }
+        }
+    }
+    return sortedBy(found.values(), ({expectation}) => [expectation.filePath, expectation.lineNo]);
+}
+
+export function printResolvedBugExpectations(resolvedBugExpectations: ResolvedBugExpectation[]) {
+    const colorReset = "\x1b[0m";
+
+    console.log(`\x1b[1;4mExpectations with resolved bugs (${resolvedBugExpectations.length})\x1b[21;24m`);
+    console.log();
+    for (let {expectation, bugs} of resolvedBugExpectations) {
+        console.log(`  ${expectation.location()}  ${expectation.toString(ToStringMode.WithColors, expectation.testPath,
+            colorReset)}${colorReset}`);
+        for (let bug of bugs) {
+            console.log(`      \x1b[38;5;245mwebkit.org/b/${bug.id} ${bug.status} ${bug.resolution}: ${
+                bug.summary}${colorReset}`);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import {BotsTestResults, buildNumberForRevision, Path, TestHistory, TestOutcome, TestResult} from "./main";
+import {TestContext} from "./contexts";
+
+/**
+ * Links to what a bot left behind for a build, from the URL templates of the context. Templates may have the
+ * placeholders `{builder}` (the name of the bot), `{build}` (the build number) and `{revision}`.
+ */
+export interface BuildLinks {
+    webkitRevision: number;
+    buildNumber: number;
+    buildUrl: string;
+    resultsArchiveUrl: string;
+}
+
+export interface FailedBuild extends BuildLinks {
+    result: TestResult; // the run of the test that failed in the build
+}
+
+export interface TestArtifactLink {
+    name: string; // e.g. "diff"
+    url: string;
+}
+
+function expandUrlTemplate(template: string, context: TestContext, webkitRevision: number,
+                           buildNumber: number): string {
+    return template
+        .replace(/\{builder\}/g, encodeURIComponent(context.botsPlatformName))
+        .replace(/\{build\}/g, String(buildNumber))
+        .replace(/\{revision\}/g, String(webkitRevision));
+}
+
+/**
+ * Returns the links of the latest build of the revision, null if the bot has no build for it.
+ */
+export function buildLinksForRevision(botTestsResults: BotsTestResults, webkitRevision: number): BuildLinks | null {
+    const buildNumber = buildNumberForRevision(botTestsResults, webkitRevision);
+    return buildNumber != null ? buildLinks(botTestsResults, webkitRevision, buildNumber) : null;
+}
+
+/**
+ * Returns the links of the build a result comes from, which may not be the latest build of its revision.
+ */
+export function buildLinksForResult(botTestsResults: BotsTestResults, result: TestResult): BuildLinks {
+    return buildLinks(botTestsResults, result.webkitRevision, result.buildNumber);
+}
+
+function buildLinks(botTestsResults: BotsTestResults, webkitRevision: number, buildNumber: number): BuildLinks {
+    const context = botTestsResults.context;
+    return {
+        webkitRevision: webkitRevision,
+        buildNumber: buildNumber,
+        buildUrl: expandUrlTemplate(context.buildUrlTemplate, context, webkitRevision, buildNumber),
+        resultsArchiveUrl: expandUrlTemplate(context.resultsArchiveUrlTemplate, context, webkitRevision, buildNumber),
+    };
+}
+
+/**
+ * Suffixes of the files run-webkit-tests writes next to the test in layout-test-results for every kind of failure.
+ */
+function artifactSuffixes(outcome: TestOutcome): string[] {
+    switch (outcome) {
+        case TestOutcome.Failure:
+        case TestOutcome.Text:
+            return ["-actual.txt", "-expected.txt", "-diff.txt"];
+        case TestOutcome.ImageOnlyFailure:
+            return ["-actual.png", "-expected.png", "-diff.png"];
+        case TestOutcome.ImagePlusText:
+            return ["-actual.txt", "-expected.txt", "-diff.txt", "-actual.png", "-expected.png", "-diff.png"];
+        case TestOutcome.Audio:
+            return ["-actual.wav", "-expected.wav"];
+        case TestOutcome.PassWithStderr:
+            return ["-stderr.txt"];
+        case TestOutcome.Crash:
+            return ["-crash-log.txt", "-stderr.txt"];
+        case TestOutcome.Timeout:
+            return ["-actual.txt", "-stderr.txt"];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Returns links to the output files of the test in the build of the result, none if the test passed there.
+ */
+export function testArtifactLinks(botTestsResults: BotsTestResults, testPath: Path,
+                                  result: TestResult): TestArtifactLink[] {
+    const context = botTestsResults.context;
+    const resultsUrl = expandUrlTemplate(context.testResultsUrlTemplate, context, result.webkitRevision,
+        result.buildNumber);
+    // The files are named after the test without its extension, e.g. fast/dom/b-actual.txt for fast/dom/b.html.
+    const testUrlPath = testPath.entries.map(encodeURIComponent).join("/").replace(/\.[^./]*$/, "");
+    return artifactSuffixes(result.outcome).map(suffix => ({
+        name: suffix.replace(/^-/, ""),
+        url: `${resultsUrl}/${testUrlPath}${suffix}`,
+    }));
+}
+
+/**
+ * Returns the first build known to have failed, the one the first-failed message of the report refers to, or null if
+ * the failure is older than the history of the bot. If the revision was tested several times, this is its oldest
+ * failing run.
+ */
+export function firstFailedBuild(botTestsResults: BotsTestResults, testHistory: TestHistory): FailedBuild | null {
+    const range = testHistory.findFirstFailedRevisionRange(botTestsResults);
+    if (typeof range == "string") {
+        return null;
+    }
+    const failedResults = testHistory.getTestResults(typeof range == "number" ? range : range.end)
+        .filter(result => testHistory.resultMatchesExpectation(result) == false);
+    const failedResult = failedResults[failedResults.length - 1];
+    return Object.assign({}, buildLinksForResult(botTestsResults, failedResult), {result: failedResult});
+}
\ No newline at end of file
@@ -0,0 +1,533 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import {
+    BotsTestResults,
+    expectedOutcomeAccepts,
+    findTestsWithInvalidExpectations,
+    Path,
+    TestExpectation,
+    TestHistory,
+    TestOutcome
+} from "../main";
+import {BuildType, NotifyConfig, parseConfig, TestContext} from "../contexts";
+import {ExpectationDiagnostic, ExpectationFile, loadExpectationFile, parseExpectations} from "../parse-expectations";
+import {constructBotTestsResultsFromJson} from "../parse-results-json";
+import {ExpectationIndex} from "../expectation-index";
+import {maxBy} from "../functional-utils";
+import {generateExpectationsPatch} from "../expectations-patch";
+import {compareContexts} from "../compare-contexts";
+import {lintExpectations} from "../lint-expectations";
+import {checkCachedResults, fetchContexts, readFetchMetadata} from "../fetch-results";
+import {diffUnexpectedResults} from "../snapshots";
+import {applyReportFilters, parseReportFilters} from "../report-filters";
+import {parseCommandLine} from "../command-line";
+import {renderDigest} from "../render-digest";
+import {buildJsonReport} from "../render-json";
+import {analyzeFlakiness, FlakinessClass} from "../flakiness";
+import {defaultTimeoutSeconds, findSlowTests} from "../slow-tests";
+import {findNotifiableChanges, loadNotifyState, notifyChanges} from "../notify";
+import {applyTriage, setTriageEntry, TriageStore, triageEntryExpiry, withoutIgnoredTests} from "../triage";
+
+/* Checks the behaviours that are easy to break without noticing against the fixtures next to this file. Run with
+ * `npm test`. */
+
+const context: TestContext = {
+    id: "checks",
+    botsPlatformName: "GTK Linux 64-bit Release (Tests)",
+    platform: "gtk",
+    buildType: BuildType.Release,
+    configurationSpecifiers: ["Linux"],
+    testExpectationPaths: ["platform/gtk/TestExpectations", "TestExpectations"],
+    resultsPath: `${__dirname}/results/gtk-release.json`,
+    expectationsDir: `${__dirname}/expectations`,
+    buildUrlTemplate: "",
+    resultsArchiveUrlTemplate: "",
+    testResultsUrlTemplate: "",
+};
+
+const failures = new Array<string>();
+let checkCount = 0;
+
+function check(name: string, actual: any, expected: any) {
+    checkCount++;
+    if (JSON.stringify(actual) != JSON.stringify(expected)) {
+        failures.push(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+}
+
+/**
+ * The resolver used before expectations were indexed in a trie: a linear scan of every file.
+ */
+function findMostSpecificExpectationLinearly(expectationsByPriority: TestExpectation[][], testPath: Path,
+                                             context: TestContext): TestExpectation | null {
+    for (let fileExpectations of expectationsByPriority) {
+        const matches = fileExpectations.filter(expectation => expectation.matchesTest(testPath, context));
+        if (matches.length > 0) {
+            return maxBy(matches, expectation => expectation.testPath.entries.length);
+        }
+    }
+    return null;
+}
+
+/**
+ * Runs `fn` with console.log() and console.warn() collecting the lines they print instead.
+ */
+async function captureOutput(fn: () => Promise<any> | void): Promise<string[]> {
+    const lines = new Array<string>();
+    const {log, warn} = console;
+    console.log = console.warn = (...args: any[]) => {
+        lines.push(args.join(" "));
+    };
+    try {
+        await fn();
+    } finally {
+        console.log = log;
+        console.warn = warn;
+    }
+    return lines;
+}
+
+function removeDirectory(dirPath: string) {
+    for (let name of fs.readdirSync(dirPath)) {
+        const entryPath = `${dirPath}/${name}`;
+        if (fs.statSync(entryPath).isDirectory()) {
+            removeDirectory(entryPath);
+        } else {
+            fs.unlinkSync(entryPath);
+        }
+    }
+    fs.rmdirSync(dirPath);
+}
+
+function inlineExpectationFile(path: string, lines: string[]): ExpectationFile {
+    const diagnostics = new Array<ExpectationDiagnostic>();
+    return {path: path, lines: lines, expectations: parseExpectations(path, lines, diagnostics), diagnostics: diagnostics};
+}
+
+function locationOf(expectation: TestExpectation | null): string | null {
+    return expectation ? expectation.location() : null;
+}
+
+function findTestHistory(botTestsResults: BotsTestResults, testPath: string): TestHistory {
+    const testHistory = botTestsResults.testHistories.find(history => history.testPath.toString() == testPath);
+    if (!testHistory) {
+        throw new Error(`${testPath} is missing from ${context.resultsPath}`);
+    }
+    return testHistory;
+}
+
+function checkExpectationResolution(botTestsResults: BotsTestResults, expectationsByPriority: TestExpectation[][]) {
+    const index = new ExpectationIndex(expectationsByPriority);
+    for (let testHistory of botTestsResults.testHistories) {
+        const testPath = testHistory.testPath;
+        check(`trie resolution of ${testPath}`, locationOf(index.findMostSpecificExpectation(testPath, context)),
+            locationOf(findMostSpecificExpectationLinearly(expectationsByPriority, testPath, context)));
+    }
+
+    for (let [testPath, location] of [
+        ["fast/dom/a.html", "TestExpectations:4"], // the test itself over its directory
+        ["fast/dom/b.html", "TestExpectations:3"], // a directory
+        ["fast/dom/sub/c.html", "platform/gtk/TestExpectations:3"], // the platform file over a more specific path
+        ["fast/css/y-wild.html", "TestExpectations:5"], // a wildcard
+        ["media/video.html", "platform/gtk/TestExpectations:4"], // the first of several lines with the same path
+        ["fast/css/x.html", null], // [ Mac ]
+        ["imported/w3c/t.html", null], // [ Debug ]
+    ] as [string, string | null][]) {
+        check(`expectation of ${testPath}`, locationOf(findTestHistory(botTestsResults, testPath).expectation),
+            location);
+    }
+}
+
+function checkExpectationsPatch(botTestsResults: BotsTestResults, expectationFiles: ExpectationFile[]) {
+    const patch = generateExpectationsPatch(botTestsResults, expectationFiles, ["fast/patch/gtk.html",
+        "fast/patch/shared.html"].map(testPath => findTestHistory(botTestsResults, testPath)));
+    const changedLines = patch.split("\n").filter(line => /^[-+][^-+]/.test(line));
+    // The line of the generic file is read by every port, so the test gets a new line in the GTK file instead.
+    check("patch", changedLines, [
+        "-webkit.org/b/14 fast/patch/gtk.html [ Failure ] # widened by patch",
+        "+webkit.org/b/14 fast/patch/gtk.html [ Failure Timeout ] # widened by patch",
+        "+webkit.org/b/XXXXX [ Release ] fast/patch/shared.html [ Failure Crash ]",
+    ]);
+}
+
+function checkComparisonSuggestions(botTestsResults: BotsTestResults, expectationFiles: ExpectationFile[]) {
+    const rows = compareContexts([{expectationFiles: expectationFiles, botTestsResults: botTestsResults}]);
+    const suggestionOf = (testPath: string) => {
+        const row = rows.find(row => row.testPath.toString() == testPath);
+        return row ? row.suggestion : null;
+    };
+    check("compare suggestion widening a line", suggestionOf("fast/patch/gtk.html"), {
+        expectationPath: "platform/gtk/TestExpectations",
+        lineNo: 7,
+        line: "webkit.org/b/14 fast/patch/gtk.html [ Failure Timeout ] # widened by patch",
+    });
+    check("compare suggestion adding a line", suggestionOf("fast/patch/shared.html"), {
+        expectationPath: "platform/gtk/TestExpectations",
+        lineNo: null,
+        line: "webkit.org/b/XXXXX fast/patch/shared.html [ Failure Crash ]",
+    });
+}
+
+function checkExpectationParsing() {
+    const file = inlineExpectationFile("TestExpectations", [
+        "# Comment",
+        "webkit.org/b/100 Bug(101) Bug(someone) [ Debug Mac Win x86_64 ] fast/dir/ [ Failure Pass ] # comment",
+        "BUGWK102 fast/a.html [ Rebaseline ]",
+        "webkit.org/b/103 fast/b.html",
+        "webkit.org/b/104 [ Leopard ] fast/c.html [ Crash Flaky ]",
+        "webkit.org/b/105 [ Debug Release ] fast/d.html [ DumpJSConsoleLogInStdErr ]",
+        "webkit.org/b/106 nonsense fast/e.html [ Timeout ]",
+        "webkit.org/b/107 [ Debug ] [ Failure ]",
+    ]);
+    check("parsed expectations", file.expectations.map(expectation => [
+        expectation.lineNo,
+        expectation.testPath.toString(),
+        expectation.bugIds.map(String).concat(expectation.bugMarkers),
+        expectation.buildTypeConstraint != null ? BuildType[expectation.buildTypeConstraint] : null,
+        expectation.specifierGroups,
+        Array.from(expectation.expectedOutcomes).map(outcome => TestOutcome[outcome]),
+    ]), [
+        [2, "fast/dir", ["100", "101", "Bug(someone)"], "Debug", [["Mac", "Win"], ["x86_64"]], ["Failure", "Pass"]],
+        [3, "fast/a.html", ["102"], null, [], ["Pass", "Failure", "ImageOnlyFailure", "Missing"]],
+        [4, "fast/b.html", ["103"], null, [], ["Skip"]],
+        [5, "fast/c.html", ["104"], null, [["Leopard"]], ["Crash"]],
+        [6, "fast/d.html", ["105"], null, [], ["Pass"]],
+        [7, "fast/e.html", ["106"], null, [], ["Timeout"]],
+    ]);
+    check("expectation diagnostics", file.diagnostics.map(diagnostic => `${diagnostic.lineNo}: ${diagnostic.message}`), [
+        "4: No outcome list, the line is considered [ Skip ]",
+        "5: Unknown outcome ignored: \"Flaky\"",
+        "5: Unknown modifier \"Leopard\", the line will not apply to any context",
+        "7: Unrecognized token ignored: \"nonsense\"",
+        "8: Could not find the test path, the line is ignored",
+    ]);
+}
+
+function checkLint(botTestsResults: BotsTestResults, expectationFiles: ExpectationFile[]) {
+    check("lint", lintExpectations({expectationFiles: expectationFiles, botTestsResults: botTestsResults})
+        .map(warning => `${warning.file.path}:${warning.lineNo}: ${warning.message}`), [
+        "platform/gtk/TestExpectations:5: Conflicts with platform/gtk/TestExpectations:4 ([ Timeout ] vs [ Crash ])",
+        "platform/gtk/TestExpectations:5: Never applies, shadowed by lines like platform/gtk/TestExpectations:4",
+        "platform/gtk/TestExpectations:8: Duplicate of platform/gtk/TestExpectations:4",
+        "platform/gtk/TestExpectations:8: Never applies, shadowed by lines like platform/gtk/TestExpectations:4",
+        "platform/gtk/TestExpectations:9: Repeats TestExpectations:11, which already applies",
+        "TestExpectations:6: Never applies, shadowed by lines like platform/gtk/TestExpectations:4",
+        "TestExpectations:8: Never applies, shadowed by lines like platform/gtk/TestExpectations:3",
+        "TestExpectations:10: Matches no test in the results",
+        "TestExpectations:10: No bug id",
+        "TestExpectations:11: Never applies, shadowed by lines like platform/gtk/TestExpectations:9",
+    ]);
+}
+
+function checkLintModifiers(botTestsResults: BotsTestResults) {
+    const expectationFiles = [
+        inlineExpectationFile("platform/gtk/TestExpectations", [
+            "webkit.org/b/1 [ Win ] fast/a.html [ Crash ]",
+            "webkit.org/b/2 [ Mac ] fast/a.html [ Failure ]",
+        ]),
+        inlineExpectationFile("TestExpectations", [
+            "webkit.org/b/3 [ Mac ] fast/a.html [ Failure ]",
+            "webkit.org/b/4 [ Win ] fast/a.html [ Timeout ]",
+            "webkit.org/b/5 [ Mac x86_64 ] fast/b.html [ Failure ]",
+            "webkit.org/b/6 [ x86_64 mac ] fast/b.html [ Failure ]",
+            "webkit.org/b/7 [ Linux ] fast/c.html [ Failure ]",
+            "webkit.org/b/8 [ Release x86_64 ] fast/c.html [ Timeout ]",
+        ]),
+    ];
+    // Lines with disjoint specifiers of the same category never apply to the same context.
+    check("lint of lines with specifiers", lintExpectations({expectationFiles: expectationFiles, botTestsResults})
+        .filter(warning => !/^Matches no test/.test(warning.message))
+        .map(warning => `${warning.file.path}:${warning.lineNo}: ${warning.message}`), [
+        "platform/gtk/TestExpectations:2: Repeats TestExpectations:1, which already applies",
+        "TestExpectations:4: Duplicate of TestExpectations:3",
+        "TestExpectations:6: Conflicts with TestExpectations:5 ([ Timeout ] vs [ Failure ])",
+    ]);
+}
+
+function checkOutcomeCompatibility(botTestsResults: BotsTestResults) {
+    for (let [expectedOutcome, outcome, accepted] of [
+        [TestOutcome.Failure, TestOutcome.Failure, true],
+        [TestOutcome.Failure, TestOutcome.Text, true],
+        [TestOutcome.Failure, TestOutcome.Audio, true],
+        [TestOutcome.Failure, TestOutcome.ImagePlusText, true],
+        [TestOutcome.Failure, TestOutcome.ImageOnlyFailure, true],
+        [TestOutcome.Failure, TestOutcome.Crash, false],
+        [TestOutcome.Failure, TestOutcome.Timeout, false],
+        [TestOutcome.Failure, TestOutcome.Pass, false],
+        [TestOutcome.Pass, TestOutcome.PassWithStderr, true],
+        [TestOutcome.Pass, TestOutcome.Failure, false],
+        [TestOutcome.ImageOnlyFailure, TestOutcome.Text, false],
+        [TestOutcome.Crash, TestOutcome.Crash, true],
+    ] as [TestOutcome, TestOutcome, boolean][]) {
+        check(`${TestOutcome[expectedOutcome]} accepts ${TestOutcome[outcome]}`,
+            expectedOutcomeAccepts(expectedOutcome, outcome), accepted);
+    }
+
+    check("a pass with stderr matches the default expectation",
+        findTestHistory(botTestsResults, "fast/css/stderr.html").matchesExpectation(104), true);
+    check("a text failure matches a Failure expectation",
+        findTestHistory(botTestsResults, "fast/dom/b.html").matchesExpectation(104), true);
+
+    // Version 2 of the JSON report called text failures Failure.
+    const jsonReport = buildJsonReport(botTestsResults, [findTestHistory(botTestsResults, "fast/dom/b.html")]);
+    const [jsonTest] = jsonReport.tests;
+    check("JSON report of a text failure",
+        [jsonReport.schemaVersion, jsonTest.latestOutcome, jsonTest.history[0].outcome], [3, "Text", "Text"]);
+}
+
+function checkRetriedRevisions(botTestsResults: BotsTestResults) {
+    // r102 was built twice, failing the first time and passing the retry.
+    const retried = findTestHistory(botTestsResults, "fast/flaky/retry.html");
+    check("history of a retried revision", retried.historyString().replace(/\x1b\[[0-9;]*m/g, ""), "PP(FP)P");
+    check("a failed run makes its revision fail", retried.matchesExpectation(102), false);
+    check("first failure of a retried revision", retried.findFirstFailedRevisionRange(botTestsResults), 102);
+    const flakiness = analyzeFlakiness(retried)!;
+    check("transitions of a retried revision", flakiness.transitions, 2);
+    check("flakiness of a retried revision", FlakinessClass[flakiness.flakinessClass], "Flaky");
+
+    // Crash and Timeout are both failures, so alternating between them is not flaky.
+    const crashTimeout = analyzeFlakiness(findTestHistory(botTestsResults, "fast/flaky/crash-timeout.html"))!;
+    check("transitions between failures", crashTimeout.transitions, 1);
+    check("flakiness between failures", FlakinessClass[crashTimeout.flakinessClass], "RecentlyRegressed");
+
+    // The run time jumped between the two builds of r102, and splitting between revisions leaves fewer than three runs
+    // on one side.
+    const jumps = findSlowTests(botTestsResults, defaultTimeoutSeconds(context.buildType)).runTimeJumps;
+    check("run time jumps", jumps.map(jump => jump.testHistory.testPath.toString()), []);
+}
+
+function checkSnapshotDiff(botTestsResults: BotsTestResults, expectationsByPriority: TestExpectation[][]) {
+    const newerResults = constructBotTestsResultsFromJson(context, expectationsByPriority,
+        `${__dirname}/results/gtk-release-next.json`);
+    const diff = diffUnexpectedResults(botTestsResults, newerResults);
+    const paths = (testHistories: TestHistory[]) => testHistories.map(testHistory => testHistory.testPath.toString());
+    check("snapshot diff", {
+        newUnexpected: paths(diff.newUnexpected),
+        recovered: paths(diff.recovered),
+        noLongerRun: paths(diff.noLongerRun),
+        outcomeChanges: diff.outcomeChanges.map(change => [change.testHistory.testPath.toString(),
+            TestOutcome[change.oldOutcome], TestOutcome[change.newOutcome]]),
+    }, {
+        newUnexpected: ["fast/dom/b.html"],
+        recovered: ["fast/patch/gtk.html"],
+        noLongerRun: ["fast/flaky/crash-timeout.html", "imported/w3c/t.html"],
+        outcomeChanges: [["fast/patch/shared.html", "Crash", "Timeout"]],
+    });
+}
+
+function checkTriage(expectationsByPriority: TestExpectation[][]) {
+    // Triage is set on the test histories, so they are not shared with the other checks.
+    const botTestsResults = constructBotTestsResultsFromJson(context, expectationsByPriority, context.resultsPath);
+    const store: TriageStore = {entries: []};
+    const crashingTest = findTestHistory(botTestsResults, "imported/w3c/t.html");
+    setTriageEntry(store, botTestsResults, crashingTest, "ignored", null, 105, null);
+    const [entry] = store.entries;
+    check("triage entry", [entry.outcome, entry.revision, entry.untilRevision], ["Crash", 104, 105]);
+
+    check("triage expiry", [
+        entry,
+        Object.assign({}, entry, {untilRevision: 104}),
+        Object.assign({}, entry, {outcome: "Timeout"}),
+        Object.assign({}, entry, {testPath: "fast/removed.html"}),
+    ].map(variant => triageEntryExpiry(botTestsResults, variant)), [
+        null,
+        "r104 reached",
+        "outcome changed from Timeout to Crash",
+        "no results in the latest revision",
+    ]);
+
+    applyTriage(botTestsResults, store);
+    const unexpectedTests = findTestsWithInvalidExpectations(botTestsResults);
+    check("ignored tests are still unexpected", unexpectedTests.indexOf(crashingTest) != -1, true);
+    check("ignored tests are hidden from the report", withoutIgnoredTests(unexpectedTests).indexOf(crashingTest), -1);
+}
+
+function checkReportFilters(botTestsResults: BotsTestResults, expectationsByPriority: TestExpectation[][]) {
+    const newerResults = constructBotTestsResultsFromJson(context, expectationsByPriority,
+        `${__dirname}/results/gtk-release-next.json`);
+    const filteredTests = (results: BotsTestResults, args: string[]) => {
+        const filters = parseReportFilters(parseCommandLine(args, ["report"], "report"));
+        return applyReportFilters(results, results.testHistories, filters)
+            .map(testHistory => testHistory.testPath.toString())
+            .sort();
+    };
+
+    for (let [args, testPaths] of [
+        [["--dir=fast/dom"], ["fast/dom/a.html", "fast/dom/b.html", "fast/dom/sub/c.html"]],
+        [["--match=wild|video"], ["fast/css/y-wild.html", "media/video.html"]],
+        [["--outcome=Failure"], ["fast/dom/b.html", "fast/dom/sub/c.html"]], // Text and ImageOnlyFailure
+        [["--outcome=Crash,Timeout", "--dir=fast/patch"], ["fast/patch/gtk.html", "fast/patch/shared.html"]],
+        [["--bug=webkit.org/b/10", "--bug=11"], ["fast/dom/sub/c.html", "media/video.html"]],
+        [["--expectation=absent"], ["fast/css/stderr.html", "fast/css/x.html", "fast/flaky/crash-timeout.html",
+            "fast/flaky/retry.html", "fast/slow/retried.html", "imported/w3c/t.html"]],
+        [["--failed-after=104"], []], // all the failures are older than the results
+    ] as [string[], string[]][]) {
+        check(`filters ${args.join(" ")}`, filteredTests(botTestsResults, args), testPaths);
+    }
+    check("filters --failed-after=105", filteredTests(newerResults, ["--failed-after=105"]), ["fast/dom/b.html"]);
+
+    let error: string | null = null;
+    try {
+        filteredTests(botTestsResults, ["--outcome=Flaky"]);
+    } catch (e) {
+        error = e.message;
+    }
+    check("filters with an unknown outcome", error, "Unknown outcome: Flaky");
+}
+
+function checkDigest(botTestsResults: BotsTestResults, expectationFiles: ExpectationFile[]) {
+    const digest = renderDigest(botTestsResults, expectationFiles, findTestsWithInvalidExpectations(botTestsResults),
+        "text", null);
+    // Plain text code blocks are indented by four spaces.
+    const expectationLines = digest.split("\n").filter(line => line.startsWith("    ")).map(line => line.trim());
+    check("digest expectation lines", expectationLines.sort(), [
+        "webkit.org/b/14 fast/patch/gtk.html [ Failure Timeout ] # widened by patch",
+        "webkit.org/b/XXXXX [ Release ] fast/flaky/crash-timeout.html [ Crash ]",
+        "webkit.org/b/XXXXX [ Release ] fast/patch/shared.html [ Failure Crash ]",
+        "webkit.org/b/XXXXX [ Release ] imported/w3c/t.html [ Crash ]",
+    ]);
+}
+
+async function checkConditionalFetch(tempDir: string) {
+    const resultsJson = fs.readFileSync(context.resultsPath);
+    const receivedEtags = new Array<string | null>(); // If-None-Match of every request
+    const server = http.createServer((request, response) => {
+        const etag = request.headers["if-none-match"];
+        receivedEtags.push(typeof etag == "string" ? etag : null);
+        if (etag == "\"v1\"") {
+            response.writeHead(304);
+            response.end();
+        } else {
+            response.writeHead(200, {"ETag": "\"v1\""});
+            response.end(resultsJson);
+        }
+    });
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    const config = parseConfig(`${tempDir}/gardener-config.json`, JSON.stringify({
+        resultsBaseUrl: `http://127.0.0.1:${server.address().port}`,
+        contexts: ["fetched", "never-fetched"].map(id => ({
+            id: id,
+            botsPlatformName: context.botsPlatformName,
+            platform: context.platform,
+            buildType: BuildType[context.buildType],
+            testExpectationPaths: context.testExpectationPaths,
+            resultsPath: `results/${id}.json`,
+        })),
+    }));
+    const [fetchedContext] = config.contexts;
+    try {
+        check("first fetch", await captureOutput(() => fetchContexts(config, [fetchedContext], true)),
+            ["fetched: updated (r101-r104)"]);
+        const firstMetadata = readFetchMetadata(fetchedContext.resultsPath)!;
+        check("metadata of a fetch", [firstMetadata.etag, firstMetadata.revisionRange],
+            ["\"v1\"", {oldest: 101, newest: 104}]);
+        check("second fetch", await captureOutput(() => fetchContexts(config, [fetchedContext], true)),
+            ["fetched: not modified (r101-r104)"]);
+        check("conditional requests", receivedEtags, [null, "\"v1\""]);
+    } finally {
+        server.close();
+    }
+
+    let oldCount = 0;
+    check("offline fetch", await captureOutput(() => {
+        oldCount = checkCachedResults(config.contexts, 24);
+    }), ["fetched: results fetched just now", "never-fetched: warning: no cached results"]);
+    check("contexts with old or missing results", oldCount, 1);
+}
+
+async function checkNotifications(tempDir: string, expectationFiles: ExpectationFile[],
+                                  botTestsResults: BotsTestResults) {
+    const config: NotifyConfig = {
+        command: null,
+        webhookUrl: null,
+        mailSpoolPath: null,
+        mailTo: "gardener@localhost",
+        minIntervalMinutes: 60,
+        quietPeriodMinutes: 30,
+        statePath: `${tempDir}/notify-state.json`,
+    };
+    const newerResults = constructBotTestsResultsFromJson(context, expectationFiles.map(file => file.expectations),
+        `${__dirname}/results/gtk-release-next.json`);
+    const startTime = new Date("2018-11-05T09:00:00Z");
+    const minutesLater = (minutes: number) => new Date(startTime.getTime() + minutes * 60 * 1000);
+    // Without hooks the notification is printed, returns its subject or null if nothing was notified.
+    const notifyAt = async (results: BotsTestResults, minutes: number) => {
+        const lines = await captureOutput(() => notifyChanges(config,
+            [{expectationFiles: expectationFiles, botTestsResults: results}], false, minutesLater(minutes)));
+        return lines.length > 0 ? lines[0] : null;
+    };
+    const notifiedTests = () => loadNotifyState(config.statePath).contexts[context.id].unexpectedTests;
+    const baseline = findTestsWithInvalidExpectations(botTestsResults)
+        .map(testHistory => testHistory.testPath.toString())
+        .sort();
+
+    check("first notification", await notifyAt(botTestsResults, 0), null);
+    check("baseline of the first notification", notifiedTests(), baseline);
+
+    check("notification of changes", await notifyAt(newerResults, 1),
+        "auto-gardener: 1 new unexpected result, 3 recovered");
+    const afterChanges = notifiedTests();
+    check("notification time", loadNotifyState(config.statePath).lastNotificationTime, minutesLater(1).toISOString());
+
+    // The changes are undone after the quiet period, but before the rate limit allows another notification.
+    check("rate limited notification", await notifyAt(botTestsResults, 45), null);
+    check("state after a rate limited notification", notifiedTests(), afterChanges);
+
+    const notified = loadNotifyState(config.statePath).contexts[context.id];
+    const changedTests = (minutes: number) => {
+        const changes = findNotifiableChanges({expectationFiles: expectationFiles, botTestsResults: botTestsResults},
+            notified, config.quietPeriodMinutes, minutesLater(minutes));
+        return changes.newFailures.concat(changes.recoveries).map(test => test.testPath).sort();
+    };
+    check("changes in the quiet period", changedTests(10), []);
+    check("changes after the quiet period", changedTests(45),
+        ["fast/dom/b.html", "fast/flaky/crash-timeout.html", "fast/patch/gtk.html", "imported/w3c/t.html"]);
+
+    check("notification after the rate limit", await notifyAt(botTestsResults, 90),
+        "auto-gardener: 3 new unexpected results, 1 recovered");
+    check("state after the rate limit", notifiedTests(), baseline);
+}
+
+async function main() {
+    const expectationFiles = context.testExpectationPaths
+        .map(path => loadExpectationFile(context.expectationsDir, path));
+    const expectationsByPriority = expectationFiles.map(file => file.expectations);
+    const botTestsResults = constructBotTestsResultsFromJson(context, expectationsByPriority, context.resultsPath);
+
+    checkExpectationResolution(botTestsResults, expectationsByPriority);
+    checkExpectationsPatch(botTestsResults, expectationFiles);
+    checkComparisonSuggestions(botTestsResults, expectationFiles);
+    checkLint(botTestsResults, expectationFiles);
+    checkExpectationParsing();
+    checkLintModifiers(botTestsResults);
+    checkOutcomeCompatibility(botTestsResults);
+    checkRetriedRevisions(botTestsResults);
+    checkSnapshotDiff(botTestsResults, expectationsByPriority);
+    checkTriage(expectationsByPriority);
+    checkReportFilters(botTestsResults, expectationsByPriority);
+    checkDigest(botTestsResults, expectationFiles);
+
+    const tempDir = fs.mkdtempSync(`${os.tmpdir()}/gardener-checks-`);
+    try {
+        await checkConditionalFetch(tempDir);
+        await checkNotifications(tempDir, expectationFiles, botTestsResults);
+    } finally {
+        removeDirectory(tempDir);
+    }
+
+    for (let failure of failures) {
+        console.error(failure);
+    }
+    if (failures.length > 0) {
+        console.error(`${failures.length} of ${checkCount} checks failed`);
+        process.exit(1);
+        return;
+    }
+    console.log(`${checkCount} checks passed`);
+}
+
+main().catch(error => {
+    console.error(error.stack);
+    process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,63 @@
+export interface CommandLine {
+    command: string;
+    positionalArgs: string[];
+    options: Map<string, string[]>; // an option may be given several times, flags have an empty string as value
+}
+
+/**
+ * Parses arguments of the form `[<command>] <positional args...> [--option[=value]...]`.
+ * If the first argument is not a known command, `defaultCommand` is assumed.
+ */
+export function parseCommandLine(args: string[], commandNames: string[], defaultCommand: string): CommandLine {
+    const commandLine: CommandLine = {
+        command: defaultCommand,
+        positionalArgs: [],
+        options: new Map<string, string[]>(),
+    };
+
+    let remainingArgs = args;
+    if (args.length > 0 && commandNames.indexOf(args[0]) != -1) {
+        commandLine.command = args[0];
+        remainingArgs = args.slice(1);
+    }
+
+    for (let arg of remainingArgs) {
+        const match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+        if (match) {
+            const name = match[1];
+            const value = match[2] != null ? match[2] : "";
+            if (!commandLine.options.has(name)) {
+                commandLine.options.set(name, []);
+            }
+            commandLine.options.get(name)!.push(value);
+        } else {
+            commandLine.positionalArgs.push(arg);
+        }
+    }
+
+    return commandLine;
+}
+
+/**
+ * Returns the last value given for an option, or null if the option was not specified.
+ */
+export function getOption(commandLine: CommandLine, name: string): string | null {
+    const values = commandLine.options.get(name);
+    return values ? values[values.length - 1] : null;
+}
+
+export function hasOption(commandLine: CommandLine, name: string): boolean {
+    return commandLine.options.has(name);
+}
+
+/**
+ * Returns the name of the first option that is not in `knownOptionNames`, or null if all of them are known.
+ */
+export function findUnknownOption(commandLine: CommandLine, knownOptionNames: string[]): string | null {
+    for (let name of commandLine.options.keys()) {
+        if (knownOptionNames.indexOf(name) == -1) {
+            return name;
+        }
+    }
+    return null;
+}
\ No newline at end of file
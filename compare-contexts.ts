@@ -0,0 +1,222 @@
+import {
+    findTestsWithInvalidExpectations,
+    LoadedContext,
+    outcomeToExpectationKeyword,
+    Path,
+    TestExpectation,
+    TestHistory,
+    TestOutcome,
+    testOutcomeToColor,
+    testOutcomeToLetter,
+    ToStringMode
+} from "./main";
+import {BuildType, TestContext} from "./contexts";
+import {bugPlaceholder, widenExpectationLine} from "./expectations-patch";
+import {ExpectationFile} from "./parse-expectations";
+import {sortedBy} from "./functional-utils";
+import {vtPadLeft} from "./vt-utils";
+
+export interface ComparisonCell {
+    outcome: TestOutcome; // latest outcome in the context
+    matchesExpectation: boolean;
+    expectationPath: string | null; // file of the expectation that currently applies to the test, if any
+    expectedOutcomes: TestOutcome[]; // outcomes of that expectation, empty if there is none
+}
+
+export interface ExpectationSuggestion {
+    expectationPath: string; // the file from the cascade that should hold the line
+    lineNo: number | null; // line of that file to replace with the suggested one, null to add a new line
+    line: string;
+}
+
+export interface ComparisonRow {
+    testPath: Path;
+    cells: (ComparisonCell | null)[]; // one per context, null if the test was not run in the latest revision
+    suggestion: ExpectationSuggestion | null; // null if no single line can cover all the contexts
+}
+
+/**
+ * Builds a row for every test that has an unexpected result in the latest revision of at least one of the contexts.
+ */
+export function compareContexts(loadedContexts: LoadedContext[]): ComparisonRow[] {
+    const contexts = loadedContexts.map(loaded => loaded.botTestsResults.context);
+    const historyMaps = loadedContexts.map(loaded => {
+        const historyByPath = new Map<string, TestHistory>();
+        for (let testHistory of loaded.botTestsResults.testHistories) {
+            historyByPath.set(testHistory.testPath.toString(), testHistory);
+        }
+        return historyByPath;
+    });
+
+    const expectationFiles = new Map<string, ExpectationFile>();
+    for (let loaded of loadedContexts) {
+        for (let file of loaded.expectationFiles) {
+            expectationFiles.set(file.path, file);
+        }
+    }
+
+    const unexpectedTestPaths = new Map<string, Path>();
+    for (let loaded of loadedContexts) {
+        for (let testHistory of findTestsWithInvalidExpectations(loaded.botTestsResults)) {
+            unexpectedTestPaths.set(testHistory.testPath.toString(), testHistory.testPath);
+        }
+    }
+
+    const rows = new Array<ComparisonRow>();
+    for (let testPath of unexpectedTestPaths.values()) {
+        const cells = loadedContexts.map((loaded, i): ComparisonCell | null => {
+            const latestRevision = loaded.botTestsResults.webkitRevisions[0];
+            const testHistory = historyMaps[i].get(testPath.toString());
+            const matchesExpectation = testHistory ? testHistory.matchesExpectation(latestRevision) : null;
+            if (!testHistory || matchesExpectation == null) {
+                return null;
+            }
+            return {
+                outcome: testHistory.getTestResult(latestRevision)!.outcome,
+                matchesExpectation: matchesExpectation,
+                expectationPath: testHistory.expectation ? testHistory.expectation.filePath : null,
+                expectedOutcomes: testHistory.expectation ? Array.from(testHistory.expectation.expectedOutcomes) : [],
+            };
+        });
+
+        rows.push({
+            testPath: testPath,
+            cells: cells,
+            suggestion: suggestExpectation(testPath, contexts, expectationFiles, cells),
+        });
+    }
+
+    return sortedBy(rows, row => [row.testPath.dirName(), row.testPath.baseName()]);
+}
+
+/**
+ * Finds the file of the cascade with the most priority that is shared by all the contexts where the test fails
+ * unexpectedly but by none of those where it behaves as expected, adding a build type constraint if that is needed to
+ * leave the latter out.
+ *
+ * Contexts where the test behaves as expected are not affected by a new line in a file if their current expectation
+ * comes from a file with more priority. For the same reason, files with less priority than the current expectation of
+ * a failing context are skipped, as the new line would have no effect there. The new line keeps the outcomes of the
+ * current expectations of the failing contexts, as it replaces them.
+ *
+ * If the file already has a line for the test that applies to the failing contexts, that line is widened instead, as
+ * a second line for the same test would be a duplicate. Widening only adds outcomes, so the contexts where the line
+ * currently matches still do.
+ */
+function suggestExpectation(testPath: Path, contexts: TestContext[], expectationFiles: Map<string, ExpectationFile>,
+                            cells: (ComparisonCell | null)[]): ExpectationSuggestion | null {
+    const failingIndices = contexts
+        .map((_, i) => i)
+        .filter(i => cells[i] != null && !cells[i]!.matchesExpectation);
+    const failingContexts = failingIndices.map(i => contexts[i]);
+    const passingIndices = contexts
+        .map((_, i) => i)
+        .filter(i => cells[i] != null && cells[i]!.matchesExpectation);
+    if (failingContexts.length == 0) {
+        return null;
+    }
+
+    const failingBuildTypes = new Set(failingContexts.map(ctx => ctx.buildType));
+    const buildTypeConstraints: (BuildType | null)[] = failingBuildTypes.size == 1
+        ? [null, failingContexts[0].buildType]
+        : [null];
+
+    const sharedExpectationPaths = failingContexts[0].testExpectationPaths
+        .filter(path => failingIndices.every(i => {
+            const ctx = contexts[i];
+            const currentExpectationPath = cells[i]!.expectationPath;
+            const newLinePriority = ctx.testExpectationPaths.indexOf(path);
+            return newLinePriority != -1
+                && (currentExpectationPath == null
+                    || newLinePriority <= ctx.testExpectationPaths.indexOf(currentExpectationPath));
+        }));
+
+    const outcomes = new Set<TestOutcome>();
+    for (let i of failingIndices) {
+        cells[i]!.expectedOutcomes.forEach(outcome => outcomes.add(outcome));
+        const outcome = outcomeToExpectationKeyword(cells[i]!.outcome);
+        if (outcome != null) {
+            outcomes.add(outcome);
+        }
+    }
+
+    for (let expectationPath of sharedExpectationPaths) {
+        const file = expectationFiles.get(expectationPath);
+        const existingExpectation = file ? file.expectations.find(expectation =>
+            expectation.testPath.equals(testPath) && failingContexts.some(ctx => expectation.matchesTest(testPath, ctx)))
+            : undefined;
+        if (file && existingExpectation) {
+            return {
+                expectationPath: expectationPath,
+                lineNo: existingExpectation.lineNo,
+                line: widenExpectationLine(file.lines[existingExpectation.lineNo - 1], existingExpectation,
+                    Array.from(outcomes)).trim(),
+            };
+        }
+
+        for (let buildTypeConstraint of buildTypeConstraints) {
+            const affectsPassingContext = passingIndices.some(i => {
+                const ctx = contexts[i];
+                const currentExpectationPath = cells[i]!.expectationPath;
+                const newLinePriority = ctx.testExpectationPaths.indexOf(expectationPath);
+                return newLinePriority != -1
+                    && (buildTypeConstraint == null || ctx.buildType == buildTypeConstraint)
+                    && (currentExpectationPath == null
+                        || ctx.testExpectationPaths.indexOf(currentExpectationPath) >= newLinePriority);
+            });
+            if (affectsPassingContext) {
+                continue;
+            }
+
+            const expectation = new TestExpectation(null, -1, testPath, [], outcomes, buildTypeConstraint);
+            return {
+                expectationPath: expectationPath,
+                lineNo: null,
+                line: `${bugPlaceholder} ${expectation.toString(ToStringMode.Normal, testPath, "")}`,
+            };
+        }
+    }
+    return null;
+}
+
+export function printContextComparison(loadedContexts: LoadedContext[], rows: ComparisonRow[]) {
+    const colorReset = "\x1b[0m";
+    const contexts = loadedContexts.map(loaded => loaded.botTestsResults.context);
+    const testNameColumnWidth = rows.reduce((width, row) => Math.max(width, row.testPath.toString().length + 2), 40);
+    const cellWidths = contexts.map(ctx => Math.max(ctx.id.length, 4) + 2);
+
+    console.log(`\x1b[1;4mUnexpected results in ${contexts.map(ctx => ctx.id).join(", ")}\x1b[21;24m`);
+    for (let {botTestsResults} of loadedContexts) {
+        console.log(`  ${botTestsResults.context.id}: ${botTestsResults.context.botsPlatformName}/r${
+            botTestsResults.webkitRevisions[0]} (${botTestsResults.buildNumbers[0]})`);
+    }
+    console.log();
+
+    console.log(`\x1b[1m${vtPadLeft("", testNameColumnWidth)}${contexts
+        .map((ctx, i) => vtPadLeft(ctx.id, cellWidths[i])).join("")}Suggestion${colorReset}`);
+
+    let lastTestDirName: string | null = null;
+    for (let row of rows) {
+        // Add an empty line between test sets from different directories
+        if (lastTestDirName != null && row.testPath.dirName() != lastTestDirName) {
+            console.log();
+        }
+        lastTestDirName = row.testPath.dirName();
+
+        const cellsText = row.cells.map((cell, i) => {
+            if (!cell) {
+                return vtPadLeft("  -", cellWidths[i]);
+            }
+            const mark = cell.matchesExpectation ? " " : "\x1b[1m!\x1b[22m";
+            return vtPadLeft(`${testOutcomeToColor(cell.outcome, "bg")} ${testOutcomeToLetter(cell.outcome)}${mark}${
+                colorReset}`, cellWidths[i]);
+        }).join("");
+
+        const suggestionText = row.suggestion
+            ? `${row.suggestion.expectationPath}${
+                row.suggestion.lineNo != null ? `:${row.suggestion.lineNo}` : ""}: ${row.suggestion.line}`
+            : "\x1b[38;5;245mno single line fits, add one per context\x1b[39m";
+
+        console.log(`${vtPadLeft(row.testPath.toString(), testNameColumnWidth)}${cellsText}${suggestionText}`);
+    }
+}
\ No newline at end of file
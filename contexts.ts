@@ -1,3 +1,6 @@
+import * as fs from "fs";
+import * as path from "path";
+
 export enum BuildType {
     Debug,
     Release
@@ -8,56 +11,362 @@ export interface TestContext {
     id: string;
 
     botsPlatformName: string;
-    platform: "gtk" | "wpe";
+    platform: string; // e.g. "gtk", "wpe", "jsc-only" or "win"
     buildType: BuildType;
+    /** modifiers other than the build type that make a TestExpectations line apply to this context, e.g. "Linux" */
+    configurationSpecifiers: string[];
     testExpectationPaths: string[]; // the path with the most priority comes first
+    resultsPath: string; // results JSON of the bot
+    expectationsDir: string; // copy of the LayoutTests directory with the TestExpectations files
+    /** URLs of the bot artifacts for a build, see build-links.ts for the placeholders they may have */
+    buildUrlTemplate: string; // build page
+    resultsArchiveUrlTemplate: string; // archive of the layout-test-results directory
+    testResultsUrlTemplate: string; // layout-test-results directory, with the -actual, -expected and -diff files
+}
+
+export interface GardenerConfig {
+    contexts: TestContext[];
+    resultsBaseUrl: string; // test results server, the URL of every bot is derived from it
+    expectationsBaseUrl: string; // URL of the LayoutTests directory
+    bugzillaUrl: string | null; // Bugzilla REST API, null to only read bugsPath
+    bugsPath: string; // bug metadata, fetched from bugzillaUrl or exported from Bugzilla by hand
+    notify: NotifyConfig;
 }
 
-export const availableContexts: TestContext[] = [
+/**
+ * Hooks called by `notify` when tests start or stop having unexpected results. Every hook is optional, without any
+ * the summary is printed instead, which cron mails to the owner of the job.
+ */
+export interface NotifyConfig {
+    command: string | null; // shell command, run with the summary on stdin
+    webhookUrl: string | null; // receives a POST of the summary as JSON
+    mailSpoolPath: string | null; // mbox file the summary is appended to as an email
+    mailTo: string; // recipient of the email
+    minIntervalMinutes: number; // minimum time between notifications, changes in between wait for the next one
+    quietPeriodMinutes: number; // a test is not notified again until this long after its last notification
+    statePath: string; // what was last notified for every context
+}
+
+const defaultResultsDir = `${__dirname}/results`;
+const defaultExpectationsDir = `${__dirname}/expectations`;
+// Not named after a module: require("./contexts") would load contexts.json instead of contexts.ts.
+export const defaultConfigPath = `${__dirname}/gardener-config.json`;
+const defaultResultsBaseUrl = "https://webkit-test-results.webkit.org";
+const defaultExpectationsBaseUrl = "https://svn.webkit.org/repository/webkit/trunk/LayoutTests";
+const defaultBugzillaUrl = "https://bugs.webkit.org/rest";
+const defaultBugsPath = `${__dirname}/bugs.json`;
+const defaultBuildUrlTemplate = "https://build.webkit.org/builders/{builder}/builds/{build}";
+const defaultResultsArchiveUrlTemplate = "https://build.webkit.org/results/{builder}/r{revision}%20({build}).zip";
+const defaultTestResultsUrlTemplate = "https://build.webkit.org/results/{builder}/r{revision}%20({build})";
+const defaultNotifyConfig: NotifyConfig = {
+    command: null,
+    webhookUrl: null,
+    mailSpoolPath: null,
+    mailTo: "gardener@localhost",
+    minIntervalMinutes: 60,
+    quietPeriodMinutes: 6 * 60,
+    // Not named after a module, see defaultConfigPath.
+    statePath: `${__dirname}/notify-state.json`,
+};
+
+export const defaultContexts: TestContext[] = [
     {
         id: "gtk-debug",
         botsPlatformName: "GTK Linux 64-bit Debug (Tests)",
         platform: "gtk",
         buildType: BuildType.Debug,
+        configurationSpecifiers: ["Linux", "x86_64"],
         testExpectationPaths: [
             "platform/gtk/TestExpectations",
             "platform/wk2/TestExpectations",
             "TestExpectations",
         ],
+        resultsPath: `${defaultResultsDir}/gtk-debug.json`,
+        expectationsDir: defaultExpectationsDir,
+        buildUrlTemplate: defaultBuildUrlTemplate,
+        resultsArchiveUrlTemplate: defaultResultsArchiveUrlTemplate,
+        testResultsUrlTemplate: defaultTestResultsUrlTemplate,
     },
     {
         id: "gtk-release",
         botsPlatformName: "GTK Linux 64-bit Release (Tests)",
         platform: "gtk",
         buildType: BuildType.Release,
+        configurationSpecifiers: ["Linux", "x86_64"],
         testExpectationPaths: [
             "platform/gtk/TestExpectations",
             "platform/wk2/TestExpectations",
             "TestExpectations",
         ],
+        resultsPath: `${defaultResultsDir}/gtk-release.json`,
+        expectationsDir: defaultExpectationsDir,
+        buildUrlTemplate: defaultBuildUrlTemplate,
+        resultsArchiveUrlTemplate: defaultResultsArchiveUrlTemplate,
+        testResultsUrlTemplate: defaultTestResultsUrlTemplate,
     },
     {
         id: "gtk-release-wayland",
         botsPlatformName: "GTK Linux 64-bit Release Wayland (Tests)",
         platform: "gtk",
         buildType: BuildType.Release,
+        configurationSpecifiers: ["Linux", "x86_64"],
         testExpectationPaths: [
             "platform/gtk-wayland/TestExpectations",
             "platform/gtk/TestExpectations",
             "platform/wk2/TestExpectations",
             "TestExpectations",
         ],
+        resultsPath: `${defaultResultsDir}/gtk-release-wayland.json`,
+        expectationsDir: defaultExpectationsDir,
+        buildUrlTemplate: defaultBuildUrlTemplate,
+        resultsArchiveUrlTemplate: defaultResultsArchiveUrlTemplate,
+        testResultsUrlTemplate: defaultTestResultsUrlTemplate,
     },
     {
         id: "wpe-release",
         botsPlatformName: "WPE Linux 64-bit Release (Tests)",
         platform: "wpe",
         buildType: BuildType.Release,
+        configurationSpecifiers: ["Linux", "x86_64"],
         testExpectationPaths: [
             "platform/wpe/TestExpectations",
             "platform/gtk/TestExpectations",
             "platform/wk2/TestExpectations",
             "TestExpectations",
         ],
+        resultsPath: `${defaultResultsDir}/wpe-release.json`,
+        expectationsDir: defaultExpectationsDir,
+        buildUrlTemplate: defaultBuildUrlTemplate,
+        resultsArchiveUrlTemplate: defaultResultsArchiveUrlTemplate,
+        testResultsUrlTemplate: defaultTestResultsUrlTemplate,
     },
-];
\ No newline at end of file
+];
+
+type ConfigFieldType = "string" | "string[]" | "buildType" | "minutes";
+
+interface ConfigField {
+    type: ConfigFieldType;
+    required: boolean;
+}
+
+const contextConfigFields: {[name: string]: ConfigField} = {
+    "id": {type: "string", required: true},
+    "botsPlatformName": {type: "string", required: true},
+    "platform": {type: "string", required: true},
+    "buildType": {type: "buildType", required: true},
+    "configurationSpecifiers": {type: "string[]", required: false},
+    "testExpectationPaths": {type: "string[]", required: true},
+    "resultsPath": {type: "string", required: false}, // results/<id>.json by default
+    "expectationsDir": {type: "string", required: false}, // expectations by default
+    // build.webkit.org URLs by default
+    "buildUrlTemplate": {type: "string", required: false},
+    "resultsArchiveUrlTemplate": {type: "string", required: false},
+    "testResultsUrlTemplate": {type: "string", required: false},
+};
+
+const notifyConfigFields: {[name: string]: ConfigField} = {
+    "command": {type: "string", required: false},
+    "webhookUrl": {type: "string", required: false},
+    "mailSpoolPath": {type: "string", required: false},
+    "mailTo": {type: "string", required: false},
+    "minIntervalMinutes": {type: "minutes", required: false},
+    "quietPeriodMinutes": {type: "minutes", required: false},
+    "statePath": {type: "string", required: false},
+};
+
+function checkConfigFieldType(value: any, type: ConfigFieldType): boolean {
+    switch (type) {
+        case "string":
+            return typeof value == "string" && value != "";
+        case "string[]":
+            return Array.isArray(value) && value.every((item: any) => typeof item == "string" && item != "");
+        case "buildType":
+            return value == "Debug" || value == "Release";
+        case "minutes":
+            return typeof value == "number" && value >= 0;
+    }
+}
+
+function configFieldTypeDescription(type: ConfigFieldType): string {
+    switch (type) {
+        case "string":
+            return "a non-empty string";
+        case "string[]":
+            return "an array of non-empty strings";
+        case "buildType":
+            return `"Debug" or "Release"`;
+        case "minutes":
+            return "a number of minutes";
+    }
+}
+
+/**
+ * Reads a configuration file of the form `{"contexts": [...], "resultsBaseUrl": ..., "expectationsBaseUrl": ...}`,
+ * where every context has the fields of TestContext, and the other fields are those of GardenerConfig. All the fields
+ * are optional. Relative paths are resolved against the directory of the file. Throws an Error with a message for the
+ * user if the file is not valid.
+ */
+export function parseConfig(configPath: string, configText: string): GardenerConfig {
+    const configDir = path.dirname(path.resolve(configPath));
+    let config: any;
+    try {
+        config = JSON.parse(configText);
+    } catch (e) {
+        throw new Error(`${configPath}: invalid JSON: ${e.message}`);
+    }
+    if (typeof config != "object" || config == null || Array.isArray(config)) {
+        throw new Error(`${configPath}: expected an object`);
+    }
+    const topLevelFields = ["contexts", "resultsBaseUrl", "expectationsBaseUrl", "bugzillaUrl", "bugsPath", "notify"];
+    for (let key in config) {
+        if (topLevelFields.indexOf(key) == -1) {
+            throw new Error(`${configPath}: unknown field "${key}", expected one of: ${topLevelFields.join(", ")}`);
+        }
+    }
+    for (let urlField of ["resultsBaseUrl", "expectationsBaseUrl"]) {
+        if (urlField in config && !(typeof config[urlField] == "string" && /^https?:\/\//.test(config[urlField]))) {
+            throw new Error(`${configPath}: "${urlField}" must be an http:// or https:// URL`);
+        }
+    }
+    if ("bugzillaUrl" in config && config.bugzillaUrl !== null
+        && !(typeof config.bugzillaUrl == "string" && /^https?:\/\//.test(config.bugzillaUrl)))
+    {
+        throw new Error(`${configPath}: "bugzillaUrl" must be an http:// or https:// URL or null`);
+    }
+    if ("bugsPath" in config && !checkConfigFieldType(config.bugsPath, "string")) {
+        throw new Error(`${configPath}: "bugsPath" must be ${configFieldTypeDescription("string")}`);
+    }
+    const gardenerConfig: GardenerConfig = {
+        contexts: defaultContexts,
+        resultsBaseUrl: config.resultsBaseUrl || defaultResultsBaseUrl,
+        expectationsBaseUrl: config.expectationsBaseUrl || defaultExpectationsBaseUrl,
+        bugzillaUrl: "bugzillaUrl" in config ? config.bugzillaUrl : defaultBugzillaUrl,
+        bugsPath: config.bugsPath ? path.resolve(configDir, config.bugsPath) : defaultBugsPath,
+        notify: "notify" in config ? parseNotifyConfig(`${configPath}: notify`, configDir, config.notify)
+            : defaultNotifyConfig,
+    };
+    if (!("contexts" in config)) {
+        return gardenerConfig;
+    }
+    if (!Array.isArray(config.contexts) || config.contexts.length == 0) {
+        throw new Error(`${configPath}: "contexts" must be a non-empty array`);
+    }
+
+    const contexts = new Array<TestContext>();
+    config.contexts.forEach((contextConfig: any, index: number) => {
+        const where = `${configPath}: contexts[${index}]`;
+        if (typeof contextConfig != "object" || contextConfig == null || Array.isArray(contextConfig)) {
+            throw new Error(`${where}: expected an object`);
+        }
+        for (let key in contextConfig) {
+            if (!(key in contextConfigFields)) {
+                throw new Error(`${where}: unknown field "${key}", expected one of: ${
+                    Object.keys(contextConfigFields).join(", ")}`);
+            }
+        }
+        for (let name in contextConfigFields) {
+            const field = contextConfigFields[name];
+            if (!(name in contextConfig)) {
+                if (field.required) {
+                    throw new Error(`${where}: missing field "${name}"`);
+                }
+            } else if (!checkConfigFieldType(contextConfig[name], field.type)) {
+                throw new Error(`${where}: "${name}" must be ${configFieldTypeDescription(field.type)}`);
+            }
+        }
+
+        const id: string = contextConfig.id;
+        if (contexts.some(other => other.id == id)) {
+            throw new Error(`${where}: duplicate context id "${id}"`);
+        }
+        contexts.push({
+            id: id,
+            botsPlatformName: contextConfig.botsPlatformName,
+            platform: contextConfig.platform,
+            buildType: BuildType[contextConfig.buildType as keyof typeof BuildType],
+            configurationSpecifiers: contextConfig.configurationSpecifiers || [],
+            testExpectationPaths: contextConfig.testExpectationPaths,
+            resultsPath: contextConfig.resultsPath
+                ? path.resolve(configDir, contextConfig.resultsPath)
+                : `${defaultResultsDir}/${id}.json`,
+            expectationsDir: contextConfig.expectationsDir
+                ? path.resolve(configDir, contextConfig.expectationsDir)
+                : defaultExpectationsDir,
+            buildUrlTemplate: contextConfig.buildUrlTemplate || defaultBuildUrlTemplate,
+            resultsArchiveUrlTemplate: contextConfig.resultsArchiveUrlTemplate || defaultResultsArchiveUrlTemplate,
+            testResultsUrlTemplate: contextConfig.testResultsUrlTemplate || defaultTestResultsUrlTemplate,
+        });
+    });
+    gardenerConfig.contexts = contexts;
+    return gardenerConfig;
+}
+
+function parseNotifyConfig(where: string, configDir: string, notifyConfig: any): NotifyConfig {
+    if (typeof notifyConfig != "object" || notifyConfig == null || Array.isArray(notifyConfig)) {
+        throw new Error(`${where}: expected an object`);
+    }
+    for (let key in notifyConfig) {
+        if (!(key in notifyConfigFields)) {
+            throw new Error(`${where}: unknown field "${key}", expected one of: ${
+                Object.keys(notifyConfigFields).join(", ")}`);
+        } else if (!checkConfigFieldType(notifyConfig[key], notifyConfigFields[key].type)) {
+            throw new Error(`${where}: "${key}" must be ${configFieldTypeDescription(notifyConfigFields[key].type)}`);
+        }
+    }
+    if ("webhookUrl" in notifyConfig && !/^https?:\/\//.test(notifyConfig.webhookUrl)) {
+        throw new Error(`${where}: "webhookUrl" must be an http:// or https:// URL`);
+    }
+    return {
+        command: notifyConfig.command || null,
+        webhookUrl: notifyConfig.webhookUrl || null,
+        mailSpoolPath: notifyConfig.mailSpoolPath ? path.resolve(configDir, notifyConfig.mailSpoolPath) : null,
+        mailTo: notifyConfig.mailTo || defaultNotifyConfig.mailTo,
+        minIntervalMinutes: "minIntervalMinutes" in notifyConfig ? notifyConfig.minIntervalMinutes
+            : defaultNotifyConfig.minIntervalMinutes,
+        quietPeriodMinutes: "quietPeriodMinutes" in notifyConfig ? notifyConfig.quietPeriodMinutes
+            : defaultNotifyConfig.quietPeriodMinutes,
+        statePath: notifyConfig.statePath ? path.resolve(configDir, notifyConfig.statePath)
+            : defaultNotifyConfig.statePath,
+    };
+}
+
+/**
+ * Returns the configuration in the given file, or the default one if no file is given and there is no
+ * gardener-config.json next to the gardener.
+ */
+export function loadConfig(configPath: string | null): GardenerConfig {
+    if (configPath == null) {
+        if (!fs.existsSync(defaultConfigPath)) {
+            return {
+                contexts: defaultContexts,
+                resultsBaseUrl: defaultResultsBaseUrl,
+                expectationsBaseUrl: defaultExpectationsBaseUrl,
+                bugzillaUrl: defaultBugzillaUrl,
+                bugsPath: defaultBugsPath,
+                notify: defaultNotifyConfig,
+            };
+        }
+        configPath = defaultConfigPath;
+    }
+    if (!fs.existsSync(configPath)) {
+        throw new Error(`${configPath}: configuration file not found`);
+    }
+    return parseConfig(configPath, fs.readFileSync(configPath, "utf-8"));
+}
+
+/**
+ * Returns a message for every file the context needs that does not exist.
+ */
+export function findMissingContextFiles(context: TestContext): string[] {
+    const missingFiles = new Array<string>();
+    if (!fs.existsSync(context.resultsPath)) {
+        missingFiles.push(`${context.id}: results file not found: ${context.resultsPath}`);
+    }
+    for (let expectationPath of context.testExpectationPaths) {
+        if (!fs.existsSync(`${context.expectationsDir}/${expectationPath}`)) {
+            missingFiles.push(`${context.id}: expectations file not found: ${context.expectationsDir}/${
+                expectationPath}`);
+        }
+    }
+    return missingFiles;
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import {Path, TestExpectation} from "./main";
+import {TestContext} from "./contexts";
+import {maxBy} from "./functional-utils";
+
+interface IndexedExpectation {
+    expectation: TestExpectation;
+    order: number; // position in its file
+}
+
+class PathTrieNode {
+    children = new Map<string, PathTrieNode>();
+    // Lines whose path ends in this node, e.g. "fast/dom" for the node of fast -> dom.
+    expectations = new Array<IndexedExpectation>();
+    // Lines whose path continues from this node with an entry with wildcards, which can't be indexed by name, e.g.
+    // "fast/dom/*.html" for the node of fast -> dom.
+    wildcardExpectations = new Array<IndexedExpectation>();
+}
+
+/**
+ * The lines of a TestExpectations file in a trie indexed by path entry, so the lines that may cover a test are found
+ * by walking down its path instead of checking every line of the file.
+ */
+class FileExpectationIndex {
+    private root = new PathTrieNode();
+
+    constructor(expectations: TestExpectation[]) {
+        expectations.forEach((expectation, order) => {
+            let node = this.root;
+            for (let entry of expectation.testPath.entries) {
+                if (entry.indexOf("*") != -1) {
+                    node.wildcardExpectations.push({expectation: expectation, order: order});
+                    return;
+                }
+                let child = node.children.get(entry);
+                if (!child) {
+                    child = new PathTrieNode();
+                    node.children.set(entry, child);
+                }
+                node = child;
+            }
+            node.expectations.push({expectation: expectation, order: order});
+        });
+    }
+
+    /**
+     * Returns the lines whose path may cover the test, in no particular order. Lines with wildcards still have to be
+     * checked.
+     */
+    private findCandidates(testPath: Path): IndexedExpectation[] {
+        const candidates = new Array<IndexedExpectation>();
+        let node: PathTrieNode | undefined = this.root;
+        for (let depth = 0; node; depth++) {
+            candidates.push(...node.expectations, ...node.wildcardExpectations);
+            node = depth < testPath.entries.length ? node.children.get(testPath.entries[depth]) : undefined;
+        }
+        return candidates;
+    }
+
+    /**
+     * Returns the lines of the file whose path covers the test, whatever their modifiers.
+     */
+    findLinesCovering(testPath: Path): TestExpectation[] {
+        return this.findCandidates(testPath)
+            .filter(candidate => candidate.expectation.testPath.equalsOrContains(testPath))
+            .map(candidate => candidate.expectation);
+    }
+
+    /**
+     * Returns the lines of the file that apply to the test in the context, in the order of the file.
+     */
+    findMatches(testPath: Path, context: TestContext): TestExpectation[] {
+        return this.findCandidates(testPath)
+            .filter(candidate => candidate.expectation.matchesTest(testPath, context))
+            .sort((a, b) => a.order - b.order)
+            .map(candidate => candidate.expectation);
+    }
+}
+
+/**
+ * Resolves the expectation of a test like webkitpy does: a file with more priority overrides those with less priority
+ * entirely, no matter how specific their lines are. Inside the file with the most priority that has matching lines,
+ * the line with the longest path wins, and among lines with the same path, the first one (webkitpy reports these as
+ * errors).
+ */
+export class ExpectationIndex {
+    private fileIndexes: FileExpectationIndex[];
+
+    constructor(expectationsByPriority: TestExpectation[][]) {
+        this.fileIndexes = expectationsByPriority.map(expectations => new FileExpectationIndex(expectations));
+    }
+
+    /**
+     * Returns the lines of every file whose path covers the test, whatever their modifiers.
+     */
+    findLinesCovering(testPath: Path): TestExpectation[] {
+        return new Array<TestExpectation>().concat(
+            ...this.fileIndexes.map(fileIndex => fileIndex.findLinesCovering(testPath)));
+    }
+
+    findMostSpecificExpectation(testPath: Path, context: TestContext): TestExpectation | null {
+        for (let fileIndex of this.fileIndexes) {
+            const matches = fileIndex.findMatches(testPath, context);
+            if (matches.length > 0) {
+                return maxBy(matches, expectation => expectation.testPath.entries.length);
+            }
+        }
+        return null;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,238 @@
+import {
+    BotsTestResults,
+    isPassingOutcome,
+    outcomeToExpectationKeyword,
+    TestExpectation,
+    TestHistory,
+    TestOutcome,
+    ToStringMode
+} from "./main";
+import {ExpectationFile} from "./parse-expectations";
+import {sortedBy} from "./functional-utils";
+
+export const bugPlaceholder = "webkit.org/b/XXXXX";
+const diffContextLines = 3;
+
+/**
+ * Builds a unified diff against the TestExpectations files of the context that makes the expectations of the given
+ * tests match their latest results.
+ *
+ * Tests whose expectation line names them exactly, in a file specific to the platform of the context, get the new
+ * outcome added to that line. The rest get a new line appended to the file with the most priority of the context.
+ */
+export function generateExpectationsPatch(botTestsResults: BotsTestResults,
+                                          expectationFiles: ExpectationFile[],
+                                          testHistories: TestHistory[]): string {
+    const newLinesByFile = new Map<ExpectationFile, string[]>();
+    for (let file of expectationFiles) {
+        newLinesByFile.set(file, file.lines.slice());
+    }
+
+    // Outcomes to add to each existing line
+    const widenedOutcomes = new Map<TestExpectation, TestOutcome[]>();
+    const addedLines = new Array<string>();
+
+    for (let testHistory of sortedBy(testHistories, history => [history.testPath.toString()])) {
+        const outcomesToAdd = findOutcomesToAdd(botTestsResults, testHistory);
+        if (!outcomesToAdd) {
+            continue;
+        }
+
+        const expectation = findWidenableExpectation(botTestsResults, testHistory);
+        if (expectation) {
+            widenedOutcomes.set(expectation, (widenedOutcomes.get(expectation) || []).concat(outcomesToAdd));
+        } else {
+            addedLines.push(newExpectationLine(botTestsResults, testHistory, outcomesToAdd));
+        }
+    }
+
+    for (let [expectation, outcomes] of widenedOutcomes.entries()) {
+        const file = expectationFiles.find(file => file.path == expectation.filePath);
+        if (!file) {
+            throw new Error(`Could not find the file of the expectation at ${expectation.location()}`);
+        }
+        const newLines = newLinesByFile.get(file)!;
+        newLines[expectation.lineNo - 1] = widenExpectationLine(file.lines[expectation.lineNo - 1], expectation,
+            outcomes);
+    }
+
+    if (addedLines.length > 0) {
+        const newLines = newLinesByFile.get(expectationFiles[0])!;
+        if (newLines.length > 0 && newLines[newLines.length - 1].trim() != "") {
+            newLines.push("");
+        }
+        Array.prototype.push.apply(newLines, addedLines);
+    }
+
+    return expectationFiles
+        .map(file => formatUnifiedDiff(`LayoutTests/${file.path}`, file.lines, newLinesByFile.get(file)!))
+        .join("");
+}
+
+/**
+ * Returns the TestExpectations line that `patch` would write to make the expectation of the test match its latest
+ * result, or null if there is no data for the test in the latest revision.
+ */
+export function suggestExpectationLine(botTestsResults: BotsTestResults, expectationFiles: ExpectationFile[],
+                                       testHistory: TestHistory): string | null {
+    const outcomesToAdd = findOutcomesToAdd(botTestsResults, testHistory);
+    if (!outcomesToAdd) {
+        return null;
+    }
+    const expectation = findWidenableExpectation(botTestsResults, testHistory);
+    const file = expectation ? expectationFiles.find(file => file.path == expectation.filePath) : null;
+    if (expectation && file) {
+        return widenExpectationLine(file.lines[expectation.lineNo - 1], expectation, outcomesToAdd).trim();
+    }
+    return newExpectationLine(botTestsResults, testHistory, outcomesToAdd);
+}
+
+/**
+ * Returns the expectation line of the test if it can take the new outcomes: it must name the test exactly and be in a
+ * file only read by the platform of the context, e.g. platform/gtk/TestExpectations or
+ * platform/gtk-wayland/TestExpectations for gtk. Widening a line of the generic TestExpectations or of
+ * platform/wk2/TestExpectations would change the expectations of every other port reading them.
+ */
+function findWidenableExpectation(botTestsResults: BotsTestResults, testHistory: TestHistory): TestExpectation | null {
+    const expectation = testHistory.expectation;
+    if (!expectation || !expectation.filePath || !expectation.testPath.equals(testHistory.testPath)) {
+        return null;
+    }
+    const platform = botTestsResults.context.platform;
+    const match = /^platform\/([^/]+)\//.exec(expectation.filePath);
+    return match && (match[1] == platform || match[1].startsWith(`${platform}-`)) ? expectation : null;
+}
+
+function findOutcomesToAdd(botTestsResults: BotsTestResults, testHistory: TestHistory): TestOutcome[] | null {
+    const latestResult = testHistory.getTestResult(botTestsResults.webkitRevisions[0]);
+    const latestOutcome = latestResult ? outcomeToExpectationKeyword(latestResult.outcome) : null;
+    if (latestOutcome == null) {
+        return null;
+    }
+    const outcomesToAdd = [latestOutcome];
+    if (latestOutcome != TestOutcome.Pass && hasPassedSinceFirstFailure(testHistory, botTestsResults)) {
+        // Flaky test
+        outcomesToAdd.push(TestOutcome.Pass);
+    }
+    return outcomesToAdd;
+}
+
+/**
+ * For tests without an expectation or inheriting it from a directory: a line for the test alone.
+ */
+function newExpectationLine(botTestsResults: BotsTestResults, testHistory: TestHistory,
+                            outcomesToAdd: TestOutcome[]): string {
+    const expectation = testHistory.expectation;
+    const outcomes = new Set<TestOutcome>(expectation ? expectation.expectedOutcomes : []);
+    for (let outcome of outcomesToAdd) {
+        outcomes.add(outcome);
+    }
+    const newExpectation = new TestExpectation(null, -1, testHistory.testPath, [], outcomes,
+        botTestsResults.context.buildType);
+    return `${bugPlaceholder} ${newExpectation.toString(ToStringMode.Normal, testHistory.testPath, "")}`;
+}
+
+function hasPassedSinceFirstFailure(testHistory: TestHistory, botTestsResults: BotsTestResults): boolean {
+    const firstFailedRange = testHistory.findFirstFailedRevisionRange(botTestsResults);
+    const firstFailedRevision = typeof firstFailedRange == "number" ? firstFailedRange
+        : typeof firstFailedRange == "string" ? -Infinity
+        : firstFailedRange.start;
+
+    return testHistory.lastResults.some(result =>
+        result.webkitRevision >= firstFailedRevision && isPassingOutcome(result.outcome));
+}
+
+/**
+ * Adds outcomes to the outcome list of an expectation line, keeping the rest of the line (including comments) intact.
+ */
+export function widenExpectationLine(line: string, expectation: TestExpectation, outcomesToAdd: TestOutcome[]): string {
+    const commentStart = line.indexOf("#");
+    const code = commentStart != -1 ? line.slice(0, commentStart) : line;
+    const comment = commentStart != -1 ? line.slice(commentStart) : "";
+
+    const match = /^(\s*)(.*?\[\s*)([^\]]*?)(\s*]\s*)$/.exec(code);
+    if (!match) {
+        throw new Error(`Could not find the outcome list at line ${expectation.lineNo}: "${line}"`);
+    }
+    const [, indentation, beforeOutcomes, outcomesString, afterOutcomes] = match;
+
+    const outcomeNames = outcomesString.split(/\s+/).filter(x => x != "");
+    if (expectation.expectedOutcomes.size == 1 && expectation.expectedOutcomes.has(TestOutcome.Slow)) {
+        // Lines with just [ Slow ] implicitly expect a pass, which would be lost once other outcomes are added.
+        outcomesToAdd = [TestOutcome.Pass].concat(outcomesToAdd);
+    }
+    for (let outcome of outcomesToAdd) {
+        if (!expectation.expectedOutcomes.has(outcome) && outcomeNames.indexOf(TestOutcome[outcome]) == -1) {
+            outcomeNames.push(TestOutcome[outcome]);
+        }
+    }
+
+    const hasBug = expectation.bugIds.length > 0 || expectation.bugMarkers.length > 0;
+    const bugPrefix = !hasBug ? `${bugPlaceholder} ` : "";
+    return `${indentation}${bugPrefix}${beforeOutcomes}${outcomeNames.join(" ")}${afterOutcomes}${comment}`;
+}
+
+/**
+ * Formats the differences between two versions of a file as a unified diff.
+ *
+ * Only line replacements and lines appended at the end are supported, which is all the patch generator produces.
+ */
+function formatUnifiedDiff(filePath: string, oldLines: string[], newLines: string[]): string {
+    if (newLines.length < oldLines.length) {
+        throw new Error("Removing lines is not supported");
+    }
+
+    const changedIndices = new Array<number>();
+    for (let i = 0; i < newLines.length; i++) {
+        if (i >= oldLines.length || oldLines[i] != newLines[i]) {
+            changedIndices.push(i);
+        }
+    }
+    if (changedIndices.length == 0) {
+        return "";
+    }
+
+    // Changes close enough to share their context lines go in the same hunk.
+    const hunks = new Array<number[]>();
+    for (let index of changedIndices) {
+        const lastHunk = hunks[hunks.length - 1];
+        if (lastHunk && index - lastHunk[lastHunk.length - 1] <= 2 * diffContextLines) {
+            lastHunk.push(index);
+        } else {
+            hunks.push([index]);
+        }
+    }
+
+    const diffLines = [`--- a/${filePath}`, `+++ b/${filePath}`];
+    for (let hunk of hunks) {
+        const start = Math.max(0, hunk[0] - diffContextLines);
+        const newEnd = Math.min(newLines.length, hunk[hunk.length - 1] + diffContextLines + 1);
+        const oldEnd = Math.min(oldLines.length, newEnd);
+        const oldCount = oldEnd - start;
+        const newCount = newEnd - start;
+        diffLines.push(`@@ -${oldCount > 0 ? start + 1 : start},${oldCount} +${newCount > 0 ? start + 1 : start},${newCount} @@`);
+
+        const removedLines = new Array<string>();
+        const addedLines = new Array<string>();
+        const flushChanges = () => {
+            Array.prototype.push.apply(diffLines, removedLines.map(line => `-${line}`));
+            Array.prototype.push.apply(diffLines, addedLines.map(line => `+${line}`));
+            removedLines.length = 0;
+            addedLines.length = 0;
+        };
+        for (let i = start; i < newEnd; i++) {
+            if (i < oldLines.length && oldLines[i] == newLines[i]) {
+                flushChanges();
+                diffLines.push(` ${oldLines[i]}`);
+            } else {
+                if (i < oldLines.length) {
+                    removedLines.push(oldLines[i]);
+                }
+                addedLines.push(newLines[i]);
+            }
+        }
+        flushChanges();
+    }
+
+    return diffLines.join("\n") + "\n";
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import {parse as parseUrl, resolve as resolveUrl} from "url";
+import {GardenerConfig, TestContext} from "./contexts";
+import {findResultsRevisionRange} from "./parse-results-json";
+
+const maxRedirects = 5;
+const requestTimeoutMs = 60000;
+
+/**
+ * Stored next to every fetched file, in `<file>.meta.json`.
+ */
+export interface FetchMetadata {
+    url: string;
+    fetchTime: string; // ISO 8601, last time the server was asked for the file, even if it had not changed
+    etag: string | null;
+    lastModified: string | null;
+    revisionRange: {oldest: number, newest: number} | null; // only for results files
+}
+
+export interface HttpResponse {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+export function resultsUrl(config: GardenerConfig, context: TestContext): string {
+    return `${config.resultsBaseUrl}/testfile?builder=${encodeURIComponent(context.botsPlatformName)
+        }&master=webkit.org&testtype=layout-tests&name=results.json`;
+}
+
+function fetchMetadataPath(filePath: string): string {
+    return `${filePath}.meta.json`;
+}
+
+export function readFetchMetadata(filePath: string): FetchMetadata | null {
+    const metadataPath = fetchMetadataPath(filePath);
+    if (!fs.existsSync(metadataPath)) {
+        return null;
+    }
+    return JSON.parse(fs.readFileSync(metadataPath, "utf-8"));
+}
+
+/**
+ * Returns when the file was fetched, or when it was last written if it was not fetched by us (e.g. it was downloaded
+ * by hand), or null if it does not exist.
+ */
+export function dataFetchTime(filePath: string): Date | null {
+    const metadata = readFetchMetadata(filePath);
+    if (metadata) {
+        return new Date(metadata.fetchTime);
+    }
+    return fs.existsSync(filePath) ? fs.statSync(filePath).mtime : null;
+}
+
+export function formatDataAge(fetchTime: Date, now: Date = new Date()): string {
+    const minutes = Math.max(0, Math.floor((now.getTime() - fetchTime.getTime()) / 60000));
+    if (minutes < 1) {
+        return "just now";
+    } else if (minutes < 60) {
+        return `${minutes} ${minutes == 1 ? "minute" : "minutes"} ago`;
+    } else if (minutes < 48 * 60) {
+        const hours = Math.floor(minutes / 60);
+        return `${hours} ${hours == 1 ? "hour" : "hours"} ago`;
+    } else {
+        return `${Math.floor(minutes / (24 * 60))} days ago`;
+    }
+}
+
+export function makeDirectories(dirPath: string) {
+    if (!fs.existsSync(dirPath)) {
+        makeDirectories(path.dirname(dirPath));
+        fs.mkdirSync(dirPath);
+    }
+}
+
+/**
+ * Writes through a temporary file, so an interrupted fetch never leaves a truncated file behind.
+ */
+export function writeFileAtomically(filePath: string, contents: Buffer | string) {
+    makeDirectories(path.dirname(filePath));
+    fs.writeFileSync(`${filePath}.tmp`, contents);
+    fs.renameSync(`${filePath}.tmp`, filePath);
+}
+
+export function httpGet(url: string, requestHeaders: {[name: string]: string}, redirectsLeft = maxRedirects)
+    : Promise<HttpResponse>
+{
+    return new Promise<HttpResponse>((resolve, reject) => {
+        const get = url.startsWith("https:") ? https.get : http.get;
+        const request = get(Object.assign(parseUrl(url), {headers: requestHeaders}), response => {
+            const statusCode = response.statusCode || 0;
+            const location = response.headers["location"];
+            if (statusCode >= 300 && statusCode < 400 && statusCode != 304 && typeof location == "string") {
+                response.resume();
+                if (redirectsLeft == 0) {
+                    reject(new Error(`Too many redirects: ${url}`));
+                    return;
+                }
+                httpGet(resolveUrl(url, location), requestHeaders, redirectsLeft - 1).then(resolve, reject);
+                return;
+            }
+
+            readResponse(response).then(resolve, reject);
+        });
+        request.setTimeout(requestTimeoutMs, () => {
+            request.abort();
+            reject(new Error(`Timed out: ${url}`));
+        });
+        request.on("error", reject);
+    });
+}
+
+/**
+ * Unlike httpGet(), redirects are not followed.
+ */
+export function httpPost(url: string, requestHeaders: {[name: string]: string}, body: string): Promise<HttpResponse> {
+    return new Promise<HttpResponse>((resolve, reject) => {
+        const headers = Object.assign({"Content-Length": String(Buffer.byteLength(body))}, requestHeaders);
+        const request = (url.startsWith("https:") ? https.request : http.request)(
+            Object.assign(parseUrl(url), {method: "POST", headers: headers}),
+            response => readResponse(response).then(resolve, reject));
+        request.setTimeout(requestTimeoutMs, () => {
+            request.abort();
+            reject(new Error(`Timed out: ${url}`));
+        });
+        request.on("error", reject);
+        request.end(body);
+    });
+}
+
+function readResponse(response: http.IncomingMessage): Promise<HttpResponse> {
+    return new Promise<HttpResponse>((resolve, reject) => {
+        const chunks = new Array<Buffer>();
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => resolve({
+            statusCode: response.statusCode || 0,
+            headers: response.headers,
+            body: Buffer.concat(chunks),
+        }));
+        response.on("error", reject);
+    });
+}
+
+/**
+ * Downloads `url` into `filePath` unless the server says the copy we have is still current. Returns whether the file
+ * changed.
+ */
+async function fetchFile(url: string, filePath: string, isResultsFile: boolean): Promise<boolean> {
+    const previousMetadata = fs.existsSync(filePath) ? readFetchMetadata(filePath) : null;
+    const requestHeaders: {[name: string]: string} = {};
+    if (previousMetadata && previousMetadata.url == url) {
+        if (previousMetadata.etag) {
+            requestHeaders["If-None-Match"] = previousMetadata.etag;
+        }
+        if (previousMetadata.lastModified) {
+            requestHeaders["If-Modified-Since"] = previousMetadata.lastModified;
+        }
+    }
+
+    const response = await httpGet(url, requestHeaders);
+    const fetchTime = new Date().toISOString();
+    if (response.statusCode == 304 && previousMetadata) {
+        writeFileAtomically(fetchMetadataPath(filePath),
+            JSON.stringify(Object.assign({}, previousMetadata, {fetchTime: fetchTime}), null, 2) + "\n");
+        return false;
+    } else if (response.statusCode != 200) {
+        throw new Error(`HTTP ${response.statusCode} for ${url}`);
+    }
+
+    const etag = response.headers["etag"];
+    const lastModified = response.headers["last-modified"];
+    const metadata: FetchMetadata = {
+        url: url,
+        fetchTime: fetchTime,
+        etag: typeof etag == "string" ? etag : null,
+        lastModified: typeof lastModified == "string" ? lastModified : null,
+        revisionRange: isResultsFile ? findResultsRevisionRange(response.body.toString("utf-8")) : null,
+    };
+    writeFileAtomically(filePath, response.body);
+    writeFileAtomically(fetchMetadataPath(filePath), JSON.stringify(metadata, null, 2) + "\n");
+    return true;
+}
+
+/**
+ * Fetches the results of every context and, unless `resultsOnly` is set, the TestExpectations files of their
+ * cascades, one request at a time.
+ */
+export async function fetchContexts(config: GardenerConfig, contexts: TestContext[], resultsOnly: boolean) {
+    for (let context of contexts) {
+        const changed = await fetchFile(resultsUrl(config, context), context.resultsPath, true);
+        const metadata = readFetchMetadata(context.resultsPath)!;
+        const revisions = metadata.revisionRange
+            ? `r${metadata.revisionRange.oldest}-r${metadata.revisionRange.newest}`
+            : "unknown revisions";
+        console.log(`${context.id}: ${changed ? "updated" : "not modified"} (${revisions})`);
+    }
+    if (resultsOnly) {
+        return;
+    }
+
+    const fetchedPaths = new Set<string>();
+    for (let context of contexts) {
+        for (let expectationPath of context.testExpectationPaths) {
+            const filePath = `${context.expectationsDir}/${expectationPath}`;
+            if (fetchedPaths.has(filePath)) {
+                continue;
+            }
+            fetchedPaths.add(filePath);
+            const changed = await fetchFile(`${config.expectationsBaseUrl}/${expectationPath}`, filePath, false);
+            console.log(`${expectationPath}: ${changed ? "updated" : "not modified"}`);
+        }
+    }
+}
+
+/**
+ * Offline mode: reports how old the cached results of every context are, warning about those older than
+ * `maxAgeHours`. Returns the number of contexts with old or missing data.
+ */
+export function checkCachedResults(contexts: TestContext[], maxAgeHours: number): number {
+    let oldCount = 0;
+    const now = new Date();
+    for (let context of contexts) {
+        const fetchTime = dataFetchTime(context.resultsPath);
+        if (!fetchTime) {
+            console.warn(`${context.id}: warning: no cached results`);
+            oldCount++;
+        } else if (now.getTime() - fetchTime.getTime() > maxAgeHours * 3600 * 1000) {
+            console.warn(`${context.id}: warning: results fetched ${formatDataAge(fetchTime, now)}, older than ${
+                maxAgeHours} hours`);
+            oldCount++;
+        } else {
+            console.log(`${context.id}: results fetched ${formatDataAge(fetchTime, now)}`);
+        }
+    }
+    return oldCount;
+}
\ No newline at end of file
@@ -0,0 +1,145 @@
+import {
+    BotsTestResults,
+    isPassingOutcome,
+    outcomeToExpectationKeyword,
+    TestHistory,
+    TestOutcome,
+    TestResult,
+    testOutcomeToColor
+} from "./main";
+import {sortedBy} from "./functional-utils";
+import {vtPadLeft} from "./vt-utils";
+
+export enum FlakinessClass {
+    ConsistentlyFailing,
+    RecentlyRegressed,
+    Recovered,
+    Flaky,
+}
+
+export interface FlakinessAnalysis {
+    testHistory: TestHistory;
+    runCount: number; // results with data
+    passRate: number; // between 0 and 1
+    transitions: number; // number of times the test went from passing to failing or back from one run to the next
+    observedOutcomes: TestOutcome[]; // in TestOutcome order, the minimal expectation that would cover the history
+    flakinessClass: FlakinessClass;
+    score: number; // between 0 (stable) and 1 (passed and failed in alternate runs)
+}
+
+export type FlakinessSortKey = "score" | "pass-rate" | "transitions" | "path";
+export const flakinessSortKeys: FlakinessSortKey[] = ["score", "pass-rate", "transitions", "path"];
+
+function hasData(result: TestResult): boolean {
+    return result.outcome != TestOutcome.NoData && result.outcome != TestOutcome.Skip
+        && result.outcome != TestOutcome.Unknown;
+}
+
+/**
+ * Returns null for tests that passed in every run, as there is nothing to say about them.
+ */
+export function analyzeFlakiness(testHistory: TestHistory): FlakinessAnalysis | null {
+    const runs = testHistory.lastResults.filter(hasData); // most recent first
+    const passCount = runs.filter(result => isPassingOutcome(result.outcome)).length;
+    if (runs.length == 0 || passCount == runs.length) {
+        return null;
+    }
+
+    // Changes between kinds of failure (e.g. Crash to Timeout) don't make a test flaky.
+    let transitions = 0;
+    for (let i = 0; i < runs.length - 1; i++) {
+        if (isPassingOutcome(runs[i].outcome) != isPassingOutcome(runs[i + 1].outcome)) {
+            transitions++;
+        }
+    }
+
+    const latestPassed = isPassingOutcome(runs[0].outcome);
+    let flakinessClass: FlakinessClass;
+    if (passCount == 0) {
+        flakinessClass = FlakinessClass.ConsistentlyFailing;
+    } else if (transitions == 1) {
+        // Passed for a while and then failed for a while, or the other way around.
+        flakinessClass = latestPassed ? FlakinessClass.Recovered : FlakinessClass.RecentlyRegressed;
+    } else {
+        flakinessClass = FlakinessClass.Flaky;
+    }
+
+    return {
+        testHistory: testHistory,
+        runCount: runs.length,
+        passRate: passCount / runs.length,
+        transitions: transitions,
+        observedOutcomes: Array.from(new Set(runs
+                .map(result => outcomeToExpectationKeyword(result.outcome))
+                .filter(outcome => outcome != null)
+                .map(outcome => outcome!)))
+            .sort((a, b) => a - b),
+        flakinessClass: flakinessClass,
+        score: runs.length > 1 ? transitions / (runs.length - 1) : 0,
+    };
+}
+
+export function analyzeBotFlakiness(botTestsResults: BotsTestResults, sortKey: FlakinessSortKey): FlakinessAnalysis[] {
+    const analyses = botTestsResults.testHistories
+        .map(analyzeFlakiness)
+        .filter(analysis => analysis != null)
+        .map(analysis => analysis!);
+
+    return sortedBy(analyses, analysis => {
+        const path = analysis.testHistory.testPath.toString();
+        switch (sortKey) {
+            case "score":
+                return [-analysis.score, -analysis.transitions, path];
+            case "pass-rate":
+                return [analysis.passRate, -analysis.score, path];
+            case "transitions":
+                return [-analysis.transitions, -analysis.score, path];
+            case "path":
+                return [path];
+        }
+    });
+}
+
+function flakinessClassToString(flakinessClass: FlakinessClass): string {
+    switch (flakinessClass) {
+        case FlakinessClass.ConsistentlyFailing:
+            return "consistently failing";
+        case FlakinessClass.RecentlyRegressed:
+            return "recently regressed";
+        case FlakinessClass.Recovered:
+            return "recovered";
+        case FlakinessClass.Flaky:
+            return "flaky";
+    }
+}
+
+export function printFlakinessReport(botTestsResults: BotsTestResults, analyses: FlakinessAnalysis[]) {
+    const colorReset = "\x1b[0m";
+    const testNameColumnWidth = analyses.reduce((width, analysis) =>
+        Math.max(width, analysis.testHistory.testPath.toString().length + 2), 40);
+
+    console.log(`\x1b[1;4mFlakiness in ${botTestsResults.context.botsPlatformName}/r${
+        botTestsResults.webkitRevisions[0]} (${botTestsResults.buildNumbers[0]})\x1b[21;24m`);
+    console.log();
+    console.log(`\x1b[1m${vtPadLeft("Score", 7)}${vtPadLeft("Pass", 6)}${vtPadLeft("Flips", 7)}${
+        vtPadLeft("Class", 22)}${vtPadLeft("Suggested", 36)}${vtPadLeft("Test", testNameColumnWidth)}History${
+        colorReset}`);
+
+    for (let analysis of analyses) {
+        const expectation = analysis.testHistory.expectation;
+        const currentOutcomes = expectation
+            ? ` (now [ ${Array.from(expectation.expectedOutcomes).map(outcome => TestOutcome[outcome]).join(" ")} ])`
+            : "";
+        const outcomesColumn = analysis.observedOutcomes
+            .map(outcome => `${testOutcomeToColor(outcome, "fg")}${TestOutcome[outcome]}${colorReset}`)
+            .join(" ");
+
+        console.log(`${vtPadLeft(analysis.score.toFixed(2), 7)}${
+            vtPadLeft(`${Math.round(analysis.passRate * 100)}%`, 6)}${
+            vtPadLeft(`${analysis.transitions}`, 7)}${
+            vtPadLeft(flakinessClassToString(analysis.flakinessClass), 22)}${
+            vtPadLeft(`[ ${outcomesColumn} ]`, 36)}${
+            vtPadLeft(`${analysis.testHistory.testPath}`, testNameColumnWidth)}${
+            analysis.testHistory.historyString()}\x1b[38;5;245m${currentOutcomes}${colorReset}`);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,171 @@
+import {LoadedContext, TestExpectation, TestOutcome} from "./main";
+import {ExpectationFile, specifierCategory} from "./parse-expectations";
+import {sortedBy} from "./functional-utils";
+import {ExpectationIndex} from "./expectation-index";
+
+export interface LintWarning {
+    file: ExpectationFile;
+    lineNo: number;
+    message: string;
+}
+
+/**
+ * The configuration specifiers of a line by category, lower-cased, e.g. {os: [mac, win]} for [ Mac Win ].
+ */
+function specifiersByCategory(expectation: TestExpectation): Map<string, Set<string>> {
+    const specifiers = new Map<string, Set<string>>();
+    for (let specifier of new Array<string>().concat(...expectation.specifierGroups)) {
+        const category = specifierCategory(specifier);
+        specifiers.set(category, (specifiers.get(category) || new Set<string>()).add(specifier.toLowerCase()));
+    }
+    return specifiers;
+}
+
+/**
+ * Whether some context could match both lines: their build types must be compatible and, for every category of
+ * specifiers both lines use, they must share a specifier. [ Mac ] and [ Win ] don't overlap, [ Mac ] and [ x86_64 ] do.
+ */
+function modifiersOverlap(a: TestExpectation, b: TestExpectation): boolean {
+    if (a.buildTypeConstraint != null && b.buildTypeConstraint != null
+        && a.buildTypeConstraint != b.buildTypeConstraint) {
+        return false;
+    }
+    const bSpecifiers = specifiersByCategory(b);
+    return Array.from(specifiersByCategory(a).entries()).every(([category, specifiers]) => {
+        const otherSpecifiers = bSpecifiers.get(category);
+        return !otherSpecifiers || Array.from(specifiers).some(specifier => otherSpecifiers.has(specifier));
+    });
+}
+
+function sameModifiers(a: TestExpectation, b: TestExpectation): boolean {
+    const aSpecifiers = specifiersByCategory(a);
+    const bSpecifiers = specifiersByCategory(b);
+    return a.buildTypeConstraint == b.buildTypeConstraint
+        && aSpecifiers.size == bSpecifiers.size
+        && Array.from(aSpecifiers.entries()).every(([category, specifiers]) => {
+            const otherSpecifiers = bSpecifiers.get(category);
+            return otherSpecifiers != undefined && otherSpecifiers.size == specifiers.size
+                && Array.from(specifiers).every(specifier => otherSpecifiers.has(specifier));
+        });
+}
+
+function sameOutcomes(a: TestExpectation, b: TestExpectation): boolean {
+    return a.expectedOutcomes.size == b.expectedOutcomes.size
+        && Array.from(a.expectedOutcomes).every(outcome => b.expectedOutcomes.has(outcome));
+}
+
+function outcomesString(expectation: TestExpectation) {
+    return `[ ${Array.from(expectation.expectedOutcomes).map(outcome => TestOutcome[outcome]).join(" ")} ]`;
+}
+
+/**
+ * Checks every file of the cascade of the context for lines that are malformed, repeated, contradictory or useless.
+ */
+export function lintExpectations(loadedContext: LoadedContext): LintWarning[] {
+    const {expectationFiles, botTestsResults} = loadedContext;
+    const warnings = new Array<LintWarning>();
+
+    for (let file of expectationFiles) {
+        for (let diagnostic of file.diagnostics) {
+            warnings.push({file: file, lineNo: diagnostic.lineNo, message: diagnostic.message});
+        }
+        for (let expectation of file.expectations) {
+            if (expectation.bugIds.length == 0 && expectation.bugMarkers.length == 0) {
+                warnings.push({file: file, lineNo: expectation.lineNo, message: "No bug id"});
+            }
+        }
+    }
+
+    // Lines for the same path in the same file
+    for (let file of expectationFiles) {
+        const expectationsByPath = new Map<string, TestExpectation[]>();
+        for (let expectation of file.expectations) {
+            const path = expectation.testPath.toString();
+            const previousExpectations = expectationsByPath.get(path) || [];
+            const previous = previousExpectations.find(other => modifiersOverlap(other, expectation));
+            if (previous) {
+                const duplicate = sameOutcomes(previous, expectation) && sameModifiers(previous, expectation);
+                warnings.push({
+                    file: file,
+                    lineNo: expectation.lineNo,
+                    message: duplicate
+                        ? `Duplicate of ${previous.location()}`
+                        : `Conflicts with ${previous.location()} (${outcomesString(expectation)} vs ${
+                            outcomesString(previous)})`,
+                });
+            }
+            expectationsByPath.set(path, previousExpectations.concat(expectation));
+        }
+    }
+
+    // Lines that repeat what a file with less priority already says
+    expectationFiles.forEach((file, priority) => {
+        const lessPriorityFiles = expectationFiles.slice(priority + 1);
+        for (let expectation of file.expectations) {
+            for (let otherFile of lessPriorityFiles) {
+                const repeated = otherFile.expectations.find(other =>
+                    other.testPath.equals(expectation.testPath)
+                    && sameModifiers(other, expectation)
+                    && sameOutcomes(other, expectation));
+                if (repeated) {
+                    warnings.push({
+                        file: file,
+                        lineNo: expectation.lineNo,
+                        message: `Repeats ${repeated.location()}, which already applies`,
+                    });
+                    break;
+                }
+            }
+        }
+    });
+
+    // Lines that cover no test, or whose tests all get their expectation from other lines
+    const fileByExpectation = new Map<TestExpectation, ExpectationFile>();
+    const matchedExpectations = new Set<TestExpectation>();
+    const appliedExpectations = new Set<TestExpectation>();
+    const shadowingExpectations = new Map<TestExpectation, TestExpectation>();
+    for (let file of expectationFiles) {
+        for (let expectation of file.expectations) {
+            fileByExpectation.set(expectation, file);
+        }
+    }
+    const expectationIndex = new ExpectationIndex(expectationFiles.map(file => file.expectations));
+    for (let testHistory of botTestsResults.testHistories) {
+        if (testHistory.expectation) {
+            appliedExpectations.add(testHistory.expectation);
+        }
+        for (let expectation of expectationIndex.findLinesCovering(testHistory.testPath)) {
+            matchedExpectations.add(expectation);
+            if (testHistory.expectation && testHistory.expectation != expectation
+                && expectation.matchesTest(testHistory.testPath, botTestsResults.context)
+                && !shadowingExpectations.has(expectation))
+            {
+                shadowingExpectations.set(expectation, testHistory.expectation);
+            }
+        }
+    }
+    for (let [expectation, file] of fileByExpectation.entries()) {
+        if (!matchedExpectations.has(expectation)) {
+            warnings.push({file: file, lineNo: expectation.lineNo, message: "Matches no test in the results"});
+        } else if (shadowingExpectations.has(expectation) && !appliedExpectations.has(expectation)) {
+            const shadowingExpectation = shadowingExpectations.get(expectation)!;
+            warnings.push({
+                file: file,
+                lineNo: expectation.lineNo,
+                message: `Never applies, shadowed by lines like ${shadowingExpectation.location()}`,
+            });
+        }
+    }
+
+    return sortedBy(warnings, warning => [expectationFiles.indexOf(warning.file), warning.lineNo, warning.message]);
+}
+
+export function printLintWarnings(warnings: LintWarning[]) {
+    for (let warning of warnings) {
+        console.log(`${warning.file.path}:${warning.lineNo}: warning: ${warning.message}`);
+    }
+    if (warnings.length > 0) {
+        console.log();
+    }
+    console.log(`${warnings.length} ${warnings.length == 1 ? "warning" : "warnings"}`);
+}
\ No newline at end of file
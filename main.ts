@@ -1,21 +1,102 @@
+import * as path from "path";
 import {groupBy, sortedBy} from "./functional-utils";
 import {printVtLines, VtLine, vtPadLeft} from "./vt-utils";
-import {parseExpectations} from "./parse-expectations";
+import {ExpectationFile, loadExpectationFile} from "./parse-expectations";
 import {constructBotTestsResultsFromJson} from "./parse-results-json";
-import {availableContexts, BuildType, TestContext} from "./contexts";
+import {BuildType, findMissingContextFiles, GardenerConfig, loadConfig, TestContext} from "./contexts";
+import {CommandLine, findUnknownOption, getOption, hasOption, parseCommandLine} from "./command-line";
+import {generateExpectationsPatch} from "./expectations-patch";
+import {findStaleExpectations, printStaleExpectations} from "./stale-expectations";
+import {compareContexts, printContextComparison} from "./compare-contexts";
+import {renderHtmlReport} from "./render-html";
+import {renderDigest} from "./render-digest";
+import {
+    BugDatabase,
+    BugGroupField,
+    fetchBugs,
+    findResolvedBugExpectations,
+    groupTestHistoriesByBug,
+    loadBugs,
+    openBugSummaries,
+    printResolvedBugExpectations
+} from "./bugzilla";
+import {buildJsonReport} from "./render-json";
+import {clusterRegressions, printRegressionClusters, RegressionCluster} from "./regression-clusters";
+import {checkWebKitCheckout, findSuspectCommits, SuspectCommit} from "./webkit-checkout";
+import {lintExpectations, printLintWarnings} from "./lint-expectations";
+import {analyzeBotFlakiness, flakinessSortKeys, FlakinessSortKey, printFlakinessReport} from "./flakiness";
+import {checkCachedResults, fetchContexts, formatDataAge} from "./fetch-results";
+import {archiveSnapshot, diffUnexpectedResults, listSnapshots, printSnapshotDiff, snapshotContext} from "./snapshots";
+import {applyTriage, loadTriageStore, printTriageEntries, removeTriageEntry, saveTriageStore, setTriageEntry,
+    TriageEntry, triageEntryToString, TriageStatus, withoutIgnoredTests} from "./triage";
+import {runReportBrowser} from "./tui";
+import {applyReportFilters, parseReportFilters, ReportFilters, reportFilterOptionNames} from "./report-filters";
+import {measure, printTimings} from "./timings";
+import {buildLinksForRevision, firstFailedBuild} from "./build-links";
+import {defaultTimeoutSeconds, findSlowTests, printSlowTestsReport} from "./slow-tests";
+import {notifyChanges} from "./notify";
 
+/**
+ * Outcomes of test results and keywords of TestExpectations. Text, Audio, ImagePlusText, PassWithStderr and Unknown
+ * only appear in results, expectations use Failure and Pass for them.
+ */
 export enum TestOutcome {
     NoData,
     Pass,
+    PassWithStderr,
     Failure,
+    Text,
+    Audio,
+    ImagePlusText,
     Skip,
     WontFix,
     Timeout,
     ImageOnlyFailure,
     Slow,
     Crash,
+    Leak,
     Missing,
     DumpJSConsoleLogInStdErr,
+    Unknown, // a result letter this version does not know about
+}
+
+/**
+ * Whether a result is accepted by an outcome of an expectation, following the compatibility rules of webkitpy:
+ * Failure accepts any kind of failure, including ImageOnlyFailure, and Pass accepts passes that wrote to stderr.
+ */
+export function expectedOutcomeAccepts(expectedOutcome: TestOutcome, outcome: TestOutcome): boolean {
+    switch (expectedOutcome) {
+        case TestOutcome.Failure:
+            return outcome == TestOutcome.Failure || outcome == TestOutcome.Text || outcome == TestOutcome.Audio
+                || outcome == TestOutcome.ImagePlusText || outcome == TestOutcome.ImageOnlyFailure;
+        case TestOutcome.Pass:
+            return outcome == TestOutcome.Pass || outcome == TestOutcome.PassWithStderr;
+        default:
+            return outcome == expectedOutcome;
+    }
+}
+
+export function isPassingOutcome(outcome: TestOutcome): boolean {
+    return expectedOutcomeAccepts(TestOutcome.Pass, outcome);
+}
+
+/**
+ * Returns the TestExpectations keyword to write for a result, e.g. Failure for Text, or null for Unknown and NoData.
+ */
+export function outcomeToExpectationKeyword(outcome: TestOutcome): TestOutcome | null {
+    switch (outcome) {
+        case TestOutcome.Text:
+        case TestOutcome.Audio:
+        case TestOutcome.ImagePlusText:
+            return TestOutcome.Failure;
+        case TestOutcome.PassWithStderr:
+            return TestOutcome.Pass;
+        case TestOutcome.NoData:
+        case TestOutcome.Unknown:
+            return null;
+        default:
+            return outcome;
+    }
 }
 
 export function testOutcomeToLetter(outcome: TestOutcome): string {
@@ -24,10 +105,19 @@ export function testOutcomeToLetter(outcome: TestOutcome): string {
             return "N";
         case TestOutcome.Pass:
             return "P";
+        case TestOutcome.PassWithStderr:
+            return "E";
         case TestOutcome.Failure:
+        case TestOutcome.Text:
             return "F";
+        case TestOutcome.Audio:
+            return "A";
+        case TestOutcome.ImagePlusText:
+            return "Z";
         case TestOutcome.Crash:
             return "C";
+        case TestOutcome.Leak:
+            return "L";
         case TestOutcome.Timeout:
             return "T";
         case TestOutcome.ImageOnlyFailure:
@@ -40,6 +130,8 @@ export function testOutcomeToLetter(outcome: TestOutcome): string {
             return "X";
         case TestOutcome.WontFix:
             return "W";
+        case TestOutcome.Unknown:
+            return "?";
         default:
             throw new Error(`Unexpected outcome: ${TestOutcome[outcome]} (${outcome})`);
     }
@@ -52,13 +144,23 @@ export function testOutcomeToColor(outcome: TestOutcome, colorType: "bg" | "fg")
         case TestOutcome.Missing:
         case TestOutcome.Skip:
         case TestOutcome.WontFix:
+        case TestOutcome.Unknown:
             return `${prefix}251m`;
         case TestOutcome.Pass:
             return `${prefix}34m`;
+        case TestOutcome.PassWithStderr:
+            return `${prefix}70m`;
         case TestOutcome.Failure:
+        case TestOutcome.Text:
             return `${prefix}9m`;
+        case TestOutcome.Audio:
+            return `${prefix}208m`;
+        case TestOutcome.ImagePlusText:
+            return `${prefix}162m`;
         case TestOutcome.Crash:
             return `${prefix}130m`;
+        case TestOutcome.Leak:
+            return `${prefix}129m`;
         case TestOutcome.Timeout:
             return `${prefix}3m`;
         case TestOutcome.ImageOnlyFailure:
@@ -78,21 +180,37 @@ export enum ToStringMode {
 
 export class TestExpectation {
     constructor(
+        public filePath: string | null, /* relative to LayoutTests, null for expectations not read from a file */
         public lineNo: number,
         public testPath: Path, /* may be a single test or a folder with tests */
         public bugIds: number[],
         public expectedOutcomes: Set<TestOutcome>,
-        public buildTypeConstraint: BuildType | null = null)
+        public buildTypeConstraint: BuildType | null = null,
+        /* other modifiers, e.g. [ ["Mac", "Win"], ["x86_64"] ] for [ Mac Win x86_64 ]: the line applies to contexts
+         * having at least one of the specifiers of each group. */
+        public specifierGroups: string[][] = [],
+        public bugMarkers: string[] = []) /* e.g. Bug(username) */
     {}
 
-    matchesTest(path: Path,buildType: BuildType): boolean {
+    /**
+     * Returns a "file:line" string that editors and terminals understand.
+     */
+    location(): string {
+        return `${this.filePath}:${this.lineNo}`;
+    }
+
+    matchesTest(path: Path, context: TestContext): boolean {
         return this.testPath.equalsOrContains(path) &&
-            (this.buildTypeConstraint == null || this.buildTypeConstraint == buildType);
+            (this.buildTypeConstraint == null || this.buildTypeConstraint == context.buildType) &&
+            this.specifierGroups.every(group => group.some(specifier =>
+                context.configurationSpecifiers.some(contextSpecifier =>
+                    contextSpecifier.toLowerCase() == specifier.toLowerCase())));
     }
 
     expectedOutcomesInclude(outcome: TestOutcome): boolean {
-        return this.expectedOutcomes.has(outcome) ||
-            this.expectedOutcomes.has(TestOutcome.Skip);
+        return Array.from(this.expectedOutcomes)
+                .some(expectedOutcome => expectedOutcomeAccepts(expectedOutcome, outcome))
+            || this.expectedOutcomes.has(TestOutcome.Skip);
     }
 
     toString(flags: ToStringMode, testPath: Path, currentBgColor: string): string {
@@ -108,13 +226,18 @@ export class TestExpectation {
                 ? `\x1b[38;5;219;4m${url}\x1b[38;5;255;24m`
                 : url);
         }
-        if (flags & ToStringMode.PadBugLink && this.bugIds.length == 0) {
+        for (let bugMarker of this.bugMarkers) {
+            parts.push(flags & ToStringMode.PadBugLink ? vtPadLeft(bugMarker, bugLinkWidth) : bugMarker);
+        }
+        if (flags & ToStringMode.PadBugLink && this.bugIds.length == 0 && this.bugMarkers.length == 0) {
             // Add empty padding with the size of a bug URL.
             parts.push(vtPadLeft("", bugLinkWidth));
         }
 
-        if (this.buildTypeConstraint != null) {
-            parts.push(`[ ${BuildType[this.buildTypeConstraint]} ]`);
+        const modifiers = (this.buildTypeConstraint != null ? [BuildType[this.buildTypeConstraint]] : [])
+            .concat(...this.specifierGroups);
+        if (modifiers.length > 0) {
+            parts.push(`[ ${modifiers.join(" ")} ]`);
         }
         /* Note: The caller must specify the path of the specific test, as the same TestExpectation may cover several
          * tests. */
@@ -134,6 +257,26 @@ export class TestExpectation {
     }
 }
 
+const wildcardRegExps = new Map<string, RegExp>();
+
+function pathEntryMatches(pattern: string, entry: string | undefined): boolean {
+    if (pattern == entry) {
+        return true;
+    } else if (entry === undefined || pattern.indexOf("*") == -1) {
+        return false;
+    }
+
+    let regExp = wildcardRegExps.get(pattern);
+    if (!regExp) {
+        regExp = new RegExp("^" + pattern
+            .split("*")
+            .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+            .join(".*") + "$");
+        wildcardRegExps.set(pattern, regExp);
+    }
+    return regExp.test(entry);
+}
+
 export class Path {
     constructor(public entries: string[]) {
     }
@@ -146,9 +289,12 @@ export class Path {
         }
     }
 
+    /**
+     * Entries of this path may contain * wildcards, which match any sequence of characters within an entry.
+     */
     equalsOrContains(other: Path) {
         for (let i = 0; i < this.entries.length; i++) {
-            if (this.entries[i] != other.entries[i]) {
+            if (!pathEntryMatches(this.entries[i], other.entries[i])) {
                 return false;
             }
         }
@@ -171,44 +317,85 @@ export class Path {
 
 export interface TestResult {
     webkitRevision: number;
+    buildNumber: number;
     outcome: TestOutcome;
+    runTime: number | null; // in seconds, null if the bot did not report it
 }
 
 export interface BotsTestResults {
     context: TestContext;
-    webkitRevisions: number[]; //most recent first
-    buildNumbers: number[]; // most recent first
+    webkitRevisions: number[]; // most recent first, once each even if several builds tested the same revision
+    buildNumbers: number[]; // most recent first, the latest build of each revision
     testHistories: TestHistory[];
+    fetchTime: Date | null; // when the results were downloaded, null if unknown
 }
 
 export type RevisionRange = number | {start: number, end: number} | "long ago" | "never failed";
 
 export class TestHistory {
+    triage: TriageEntry | null = null; // set if a gardener triaged the test and the entry still applies
+
     constructor(public context: TestContext,
                 public testPath: Path,
-                public lastResults: TestResult[], // most recent first
+                public lastResults: TestResult[], // one per build, most recent first
                 public expectation: TestExpectation | null)
     {}
 
+    /**
+     * Returns the result of the test in the revision. If the revision was tested several times, this is the most recent
+     * run that does not match the expectation, if any, so a retry that passed does not hide a failure.
+     */
     getTestResult(webkitRevision: number): TestResult | null {
-        return this.lastResults.find(x => x.webkitRevision == webkitRevision) || null;
+        const results = this.getTestResults(webkitRevision);
+        return results.find(result => this.resultMatchesExpectation(result) == false) || results[0] || null;
+    }
+
+    /**
+     * Returns every run of the test in the revision, most recent first. Bots sometimes test the same revision again,
+     * e.g. when a build is retried.
+     */
+    getTestResults(webkitRevision: number): TestResult[] {
+        return this.lastResults.filter(x => x.webkitRevision == webkitRevision);
     }
 
     /**
-     * true: test matches expectation
-     * false: test does not match expectation
+     * Returns the revisions the test has results for, most recent first, once each.
+     */
+    revisions(): number[] {
+        return this.lastResults
+            .map(result => result.webkitRevision)
+            .filter((revision, i, revisions) => revisions.indexOf(revision) == i);
+    }
+
+    /**
+     * true: test matches expectation in every run of that revision
+     * false: test does not match expectation in some run of that revision. A revision where the test failed and
+     *   passed is flaky, which does not match unless both outcomes are expected.
      * null: there is no data for that test in that revision
      */
     matchesExpectation(webkitRevision: number): boolean | null {
-        const testResult = this.getTestResult(webkitRevision);
-        if (!testResult || testResult.outcome == TestOutcome.NoData || testResult.outcome == TestOutcome.Skip) {
-            // This test has not been run in the specified revision
+        const matches = this.getTestResults(webkitRevision)
+            .map(result => this.resultMatchesExpectation(result))
+            .filter(match => match != null);
+        if (matches.length == 0) {
+            return null;
+        }
+        return matches.every(match => match == true);
+    }
+
+    /**
+     * Same as matchesExpectation() for a single run.
+     */
+    resultMatchesExpectation(testResult: TestResult): boolean | null {
+        if (testResult.outcome == TestOutcome.NoData || testResult.outcome == TestOutcome.Skip
+            || testResult.outcome == TestOutcome.Unknown) {
+            // This test was not run in this build, or we can't tell how it went
             return null;
         }
 
         if (!this.expectation || (this.expectation.expectedOutcomes.size == 1 && this.expectation.expectedOutcomes.has(TestOutcome.Slow))) {
             // This test does not appear in TestExpectations, or it's only marked as [ Slow ], it should pass
-            return testResult.outcome == TestOutcome.Pass;
+            return isPassingOutcome(testResult.outcome);
         } else {
             // The test should match the expectation
             return this.expectation.expectedOutcomesInclude(testResult.outcome);
@@ -219,45 +406,54 @@ export class TestHistory {
        if (this.expectation) {
            return this.expectation;
        } else {
-           return new TestExpectation(-1, this.testPath, [], new Set([TestOutcome.Pass]), null);
+           return new TestExpectation(null, -1, this.testPath, [], new Set([TestOutcome.Pass]), null);
        }
     }
 
+    /**
+     * Revisions tested several times show all their runs in parentheses, e.g. "PP(FP)P".
+     */
     historyString() {
-        return this.lastResults
-            .map(result => testOutcomeToColor(result.outcome, "bg") + testOutcomeToLetter(result.outcome))
+        return groupResultsByRevision(this.lastResults)
+            .map(results => {
+                const letters = results
+                    .map(result => testOutcomeToColor(result.outcome, "bg") + testOutcomeToLetter(result.outcome))
+                    .join("");
+                return results.length > 1 ? `\x1b[0m(${letters}\x1b[0m)` : letters;
+            })
             .join("") + "\x1b[0m";
     }
 
     findFirstFailedRevisionRange(botTestResults: BotsTestResults): RevisionRange {
         let wasWorkingOnRevision: number | null = null;
-        for (let i = this.lastResults.length - 1; i >= 0; i--) {
-            const result = this.lastResults[i];
-            const resultMatchesExpectation = this.matchesExpectation(result.webkitRevision);
+        const revisions = this.revisions();
+        for (let i = revisions.length - 1; i >= 0; i--) {
+            const webkitRevision = revisions[i];
+            const resultMatchesExpectation = this.matchesExpectation(webkitRevision);
             if (resultMatchesExpectation == false) {
                 if (wasWorkingOnRevision == null) {
                     // First data we have on the test is already a failure
-                    if (this.lastResults.length >= botTestResults.webkitRevisions.length) {
+                    if (revisions.length >= botTestResults.webkitRevisions.length) {
                         return "long ago";
                     } else {
                         // Either the test or the failure is quite recent (we don't get data for tests with a fully
                         // green past).
                         // Either way we can assume this test was not failing in the immediately previous revision.
                         wasWorkingOnRevision = botTestResults.webkitRevisions
-                            .find(rev => rev < result.webkitRevision)!;
+                            .find(rev => rev < webkitRevision)!;
                     }
                 }
 
                 // We know the range of the failure, report it appropriately.
-                if (result.webkitRevision - wasWorkingOnRevision == 1) {
+                if (webkitRevision - wasWorkingOnRevision == 1) {
                     // Failed on this exact revision
-                    return result.webkitRevision;
+                    return webkitRevision;
                 } else {
                     // Failed somewhere between these revisions (both ends included)
-                    return {start: wasWorkingOnRevision + 1, end: result.webkitRevision};
+                    return {start: wasWorkingOnRevision + 1, end: webkitRevision};
                 }
             } else if (resultMatchesExpectation == true) {
-                wasWorkingOnRevision = result.webkitRevision;
+                wasWorkingOnRevision = webkitRevision;
             }
         }
         return "never failed";
@@ -308,12 +504,15 @@ export class TestHistory {
         return revision < cutOffRevision;
     }
 
+    /**
+     * Includes the failed revision itself, so a failure that passed when retried counts as flaky.
+     */
     private findFirstPassingRevisionAfter(firstKnownFailedRevision: number): number | null {
         for (let i = this.lastResults.length - 1; i >= 0; i--) {
             const result = this.lastResults[i];
-            const resultMatchesExpectation = this.matchesExpectation(result.webkitRevision);
+            const resultMatchesExpectation = this.resultMatchesExpectation(result);
 
-            if (result.webkitRevision > firstKnownFailedRevision && resultMatchesExpectation == true) {
+            if (result.webkitRevision >= firstKnownFailedRevision && resultMatchesExpectation == true) {
                 return result.webkitRevision;
             }
         }
@@ -321,43 +520,88 @@ export class TestHistory {
     }
 }
 
-function findTestsWithInvalidExpectations(botTestsResults: BotsTestResults): TestHistory[] {
-    const latestRevision = botTestsResults.webkitRevisions[0];
+/**
+ * Splits results into one array per revision, keeping the order, e.g. to show the runs of a revision together.
+ */
+export function groupResultsByRevision(results: TestResult[]): TestResult[][] {
+    const groups = new Array<TestResult[]>();
+    for (let result of results) {
+        const lastGroup = groups[groups.length - 1];
+        if (lastGroup && lastGroup[0].webkitRevision == result.webkitRevision) {
+            lastGroup.push(result);
+        } else {
+            groups.push([result]);
+        }
+    }
+    return groups;
+}
 
-    const colorReset = "\x1b[0m";
-    const testNameColumnWidth = 131;
-    const consoleWidth = 231;
+export function findTestsWithInvalidExpectations(botTestsResults: BotsTestResults): TestHistory[] {
+    const latestRevision = botTestsResults.webkitRevisions[0];
 
-    const testHistoriesWithInvalidExpectations = botTestsResults.testHistories
+    return botTestsResults.testHistories
         .filter(history => history.matchesExpectation(latestRevision) === false);
+}
 
-    const testHistoryByOutcome = groupBy(testHistoriesWithInvalidExpectations,
+/**
+ * Groups the tests by their latest outcome, sorting each group by directory, then bug id (newest first), then name.
+ */
+export function groupTestHistoriesForReport(botTestsResults: BotsTestResults,
+                                            testHistories: TestHistory[]): [TestOutcome, TestHistory[]][] {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+
+    const testHistoryByOutcome = groupBy(testHistories,
             history => history.getTestResult(latestRevision)!.outcome);
 
+    return sortedBy(testHistoryByOutcome.entries(), ([outcome, _]) => [outcome])
+        // No point to report tests we no longer have any data about.
+        .filter(([outcome, _]) => outcome != TestOutcome.NoData)
+        .map(([outcome, outcomeHistories]): [TestOutcome, TestHistory[]] => [
+            outcome,
+            sortedBy(outcomeHistories, (testHistory: TestHistory) => [
+                testHistory.testPath.dirName(),
+                -(testHistory.getExpectationWithDefault().bugIds[0] || -Infinity),
+                testHistory.testPath.baseName(),
+            ]),
+        ]);
+}
+
+export function buildNumberForRevision(botTestsResults: BotsTestResults, webkitRevision: number): number | null {
+    const index = botTestsResults.webkitRevisions.indexOf(webkitRevision);
+    return index != -1 ? botTestsResults.buildNumbers[index] : null;
+}
+
+/**
+ * Prints the groups of tests with invalid expectations, each under its title, e.g. "Unexpected Crash".
+ */
+function printGardeningReport(botTestsResults: BotsTestResults, groups: [string, TestHistory[]][],
+                              bugs: BugDatabase | null) {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+
+    const colorReset = "\x1b[0m";
+    const testNameColumnWidth = 131;
+    const consoleWidth = 231;
+
     const lines = new Array<VtLine>();
 
     console.log(`\x1b[1;4mGardening report for ${botTestsResults.context.botsPlatformName}/r${latestRevision} (${botTestsResults.buildNumbers[0]})\x1b[21;24m`);
+    if (botTestsResults.fetchTime) {
+        console.log(`\x1b[38;5;245mResults fetched ${formatDataAge(botTestsResults.fetchTime)}\x1b[0m`);
+    }
+    const latestBuild = buildLinksForRevision(botTestsResults, latestRevision);
+    if (latestBuild) {
+        console.log(`\x1b[38;5;245mBuild ${latestBuild.buildNumber}: ${latestBuild.buildUrl}\x1b[0m`);
+    }
 
-    for (let [outcome, outcomeHistories] of sortedBy(testHistoryByOutcome.entries(), ([outcome, _]) => [outcome])) {
-        if (outcome == TestOutcome.NoData) {
-            // No point to report tests we no longer have any data about.
-            continue;
-        }
-
+    for (let [title, groupHistories] of groups) {
         const colorEven = "\x1b[48;5;8;38;5;256m";
         const colorOdd = "\x1b[48;5;243;38;5;256m";
 
-        lines.push({text: `\x1b[1mUnexpected ${TestOutcome[outcome]}:\x1b[0m`, bgColorCode: colorReset});
-
-        outcomeHistories = sortedBy(outcomeHistories, (testHistory: TestHistory) => [
-            testHistory.testPath.dirName(),
-            -(testHistory.getExpectationWithDefault().bugIds[0] || -Infinity),
-            testHistory.testPath.baseName(),
-        ]);
+        lines.push({text: `\x1b[1m${title}:\x1b[0m`, bgColorCode: colorReset});
 
         let nextLineIsOdd = true; // Use alternating background colors to make lines easier to follow
         let lastTestDirName: string | null = null;
-        for (let testHistory of outcomeHistories) {
+        for (let testHistory of groupHistories) {
             // Add an empty line between test sets from different directories
             if (lastTestDirName != null && testHistory.testPath.dirName() != lastTestDirName) {
                 lines.push({text: "", bgColorCode: "\x1b[48;5;237m"});
@@ -366,16 +610,25 @@ function findTestsWithInvalidExpectations(botTestsResults: BotsTestResults): Tes
             lastTestDirName = testHistory.testPath.dirName();
 
             const colorSuffix = nextLineIsOdd ? colorOdd : colorEven;
+            const expectationLocation = testHistory.expectation ? `  ${testHistory.expectation.location()}` : "";
+            const triage = testHistory.triage ? `  \x1b[38;5;229m[${triageEntryToString(testHistory.triage)}]` : "";
+            const bugSummaries = openBugSummaries(bugs, testHistory.expectation)
+                .map(summary => `  \x1b[38;5;250m"${summary}"`).join("");
+            // Tests with a bug filed are dimmed, someone is already taking care of them.
+            const dim = testHistory.triage && testHistory.triage.status == "bug filed" ? "\x1b[2m" : "";
             lines.push({
-                text: `${vtPadLeft(testHistory.getExpectationWithDefault().toString(
+                text: `${dim}${vtPadLeft(testHistory.getExpectationWithDefault().toString(
                     ToStringMode.WithColors | ToStringMode.PadBugLink, testHistory.testPath, colorSuffix), testNameColumnWidth)}${
-                    testHistory.historyString()}${colorSuffix}`,
+                    testHistory.historyString()}${colorSuffix}${dim}${expectationLocation}${bugSummaries}${triage}${
+                    dim ? "\x1b[22m" : ""}`,
                 bgColorCode: colorSuffix
             });
             const failedRevisionMessage = testHistory.constructFirstFailedRevisionMessage(botTestsResults);
             if (failedRevisionMessage) {
+                const failedBuild = firstFailedBuild(botTestsResults, testHistory);
                 lines.push({
-                    text: `${vtPadLeft("", testNameColumnWidth)}${failedRevisionMessage}`,
+                    text: `${vtPadLeft("", testNameColumnWidth)}${failedRevisionMessage}${
+                        failedBuild ? `, first failed in build ${failedBuild.buildNumber}` : ""}`,
                     bgColorCode: colorSuffix,
                 });
             }
@@ -387,11 +640,160 @@ function findTestsWithInvalidExpectations(botTestsResults: BotsTestResults): Tes
     }
 
     printVtLines(lines, consoleWidth);
+}
+
+export interface LoadedContext {
+    expectationFiles: ExpectationFile[]; // the file with the most priority comes first
+    botTestsResults: BotsTestResults;
+}
+
+function loadContext(testContext: TestContext): LoadedContext {
+    const expectationFiles = measure("parsing expectations", () => testContext.testExpectationPaths.map(
+        path => loadExpectationFile(testContext.expectationsDir, path)));
+    const botTestsResults = constructBotTestsResultsFromJson(testContext,
+        expectationFiles.map(file => file.expectations),
+        testContext.resultsPath);
+    applyTriage(botTestsResults, loadTriageStore());
+
+    return {
+        expectationFiles: expectationFiles,
+        botTestsResults: botTestsResults,
+    };
+}
+
+/**
+ * Problems in the TestExpectations files don't stop the gardener, but the user should know the results may be off.
+ */
+function warnAboutExpectationDiagnostics(loadedContexts: LoadedContext[]) {
+    const diagnosticCountByPath = new Map<string, number>();
+    for (let {expectationFiles} of loadedContexts) {
+        for (let file of expectationFiles) {
+            if (file.diagnostics.length > 0) {
+                diagnosticCountByPath.set(file.path, file.diagnostics.length);
+            }
+        }
+    }
+    for (let [path, diagnosticCount] of diagnosticCountByPath.entries()) {
+        console.warn(`${path}: ${diagnosticCount} problems found, see \`auto-gardener lint\` for details.`);
+    }
+}
+
+function triageTests(commandLine: CommandLine, botTestsResults: BotsTestResults) {
+    const store = loadTriageStore();
+    const testPaths = commandLine.options.get("test") || [];
+    if (testPaths.length == 0) {
+        printTriageEntries(botTestsResults, store);
+        return;
+    }
+
+    const actions = ["investigating", "bug", "ignore-until", "clear"].filter(name => hasOption(commandLine, name));
+    if (actions.length != 1) {
+        console.error("Expected exactly one of --investigating, --bug=N, --ignore-until=REVISION or --clear");
+        process.exit(1);
+        return;
+    }
+    const action = actions[0];
+    const number = action == "bug" || action == "ignore-until" ? parseInt(getOption(commandLine, action)!) : null;
+    if (number != null && !(number > 0)) {
+        console.error(`Invalid --${action}: ${getOption(commandLine, action)}`);
+        process.exit(1);
+        return;
+    }
+    const status: TriageStatus = action == "bug" ? "bug filed" : action == "ignore-until" ? "ignored" : "investigating";
+
+    for (let testPath of testPaths) {
+        if (action == "clear") {
+            if (!removeTriageEntry(store, botTestsResults.context.id, testPath)) {
+                console.warn(`${testPath} was not triaged`);
+            }
+            continue;
+        }
+        const testHistory = botTestsResults.testHistories.find(history => history.testPath.toString() == testPath);
+        if (!testHistory) {
+            console.error(`Unknown test: ${testPath}`);
+            process.exit(1);
+            return;
+        }
+        setTriageEntry(store, botTestsResults, testHistory, status,
+            action == "bug" ? number : null,
+            action == "ignore-until" ? number : null,
+            getOption(commandLine, "note"));
+    }
+    saveTriageStore(store);
+}
+
+const commandNames = ["report", "patch", "stale", "compare", "regressions", "flakiness", "lint", "slow", "fetch", "diff", "triage", "tui", "bugs", "notify"];
+const commandOptionNames: {[command: string]: string[]} = {
+    "report": ["format", "group-by"].concat(reportFilterOptionNames),
+    "patch": reportFilterOptionNames,
+    "tui": reportFilterOptionNames,
+    "regressions": ["webkit-checkout"],
+    "flakiness": ["sort"],
+    "slow": ["timeout"],
+    "fetch": ["offline", "max-age", "results-only"],
+    "diff": ["from", "to"],
+    "triage": ["test", "investigating", "bug", "ignore-until", "clear", "note"],
+    "notify": ["dry-run"],
+};
+const reportFormats = ["ansi", "html", "json", "markdown", "text"];
+const reportGroupings = ["outcome", "component", "assignee"];
+// Options accepted by every command
+const globalOptionNames = ["config", "timings"];
+// Commands that accept several contexts at once
+const multiContextCommandNames = ["stale", "compare", "fetch", "bugs", "notify"];
+// Commands that use all the contexts if none is given
+const allContextsByDefaultCommandNames = ["compare", "fetch", "notify"];
 
-    return testHistoriesWithInvalidExpectations;
+function printUsage(availableContexts: TestContext[]) {
+    console.log("Usage: auto-gardener [<command>] <context-id>... [--config=<gardener-config.json>] [<options>]");
+    console.log();
+    console.log("Commands:");
+    console.log("  report  Show tests whose latest result does not match their expectations (default).");
+    console.log("          --format=ansi|html|json|markdown|text  Output format, ansi by default.");
+    console.log("          --group-by=outcome|component|assignee  Grouping of the ansi report, outcome by default.");
+    console.log("                               Grouping by bug fields needs the bugs downloaded by `fetch`.");
+    console.log("          Filters, also accepted by patch and tui (a test must pass all of them):");
+    console.log("          --dir=DIR            Tests in the directory, may be given several times.");
+    console.log("          --match=REGEX        Tests whose path matches the regular expression.");
+    console.log("          --outcome=OUTCOME,.. Tests whose latest outcome is one of these, e.g. Crash,Timeout.");
+    console.log("          --bug=N              Tests whose expectation has one of these bugs.");
+    console.log("          --expectation=present|absent  Tests with or without an expectation line.");
+    console.log("          --failed-after=REVISION  Tests that started failing after the revision.");
+    console.log("  patch   Print a TestExpectations patch that covers the tests shown by `report`.");
+    console.log("  stale   Show expectations whose tests have passed in every revision of every given context.");
+    console.log("  compare Show the unexpected results of several contexts side by side (all of them by default),");
+    console.log("          suggesting which TestExpectations file should hold each new line.");
+    console.log("  regressions  Group the failing tests by the revision range where they started failing.");
+    console.log("          --webkit-checkout=PATH  Git checkout of WebKit (made with git-svn or from the git mirror),");
+    console.log("                                  to list the commits of every range with the likeliest first.");
+    console.log("  flakiness    Score and classify every test that did not pass in every run.");
+    console.log(`          --sort=${flakinessSortKeys.join("|")}  Sort order, score by default.`);
+    console.log("  bugs    Show expectations whose bugs are all resolved in the bugs downloaded by `fetch`.");
+    console.log("  lint    Check the TestExpectations files of the context for problematic lines.");
+    console.log("  slow    Use the run times of the tests to find tests that need or no longer need [ Slow ].");
+    console.log("          --timeout=SECONDS  Timeout of the bot, 30 for Release and 60 for Debug by default.");
+    console.log("  fetch   Download the results and TestExpectations files of the given contexts (all by default).");
+    console.log("          --results-only  Don't download TestExpectations files or bugs.");
+    console.log("          --offline       Don't download anything, warn about cached results older than --max-age.");
+    console.log("          --max-age=HOURS  24 by default.");
+    console.log("  diff    Show how the unexpected results changed between two snapshots archived by `fetch`.");
+    console.log("          --from=SNAPSHOT --to=SNAPSHOT  The two latest snapshots by default.");
+    console.log("  notify  Run the hooks of the \"notify\" configuration for the tests of the given contexts (all by");
+    console.log("          default) that started or stopped having unexpected results since the last notification.");
+    console.log("          --dry-run  Print what would be notified without running the hooks or saving the state.");
+    console.log("  tui     Browse the report interactively.");
+    console.log("  triage  Record that a test is being taken care of, or list the triaged tests if no test is given.");
+    console.log("          --test=PATH  Test to triage, may be given several times.");
+    console.log("          --investigating | --bug=N | --ignore-until=REVISION | --clear");
+    console.log("          --note=TEXT  Optional note shown in the report.");
+    console.log();
+    console.log("Options of every command:");
+    console.log("  --config=FILE  Configuration file, gardener-config.json next to the gardener by default.");
+    console.log("  --timings      Print the time spent parsing, loading and matching to stderr when done.");
+    printAvailableContexts(availableContexts);
 }
 
-function printAvailableContexts() {
+function printAvailableContexts(availableContexts: TestContext[]) {
     console.log();
     console.log("Available contexts:");
     for (let ctx of availableContexts) {
@@ -399,32 +801,283 @@ function printAvailableContexts() {
     }
 }
 
+/**
+ * Resolves a path given in the command line against the directory the gardener was run from. The auto-gardener script
+ * changes to its own directory and passes the original one in GARDENER_CALLER_DIR.
+ */
+function resolveCommandLinePath(pathString: string): string {
+    return path.resolve(process.env.GARDENER_CALLER_DIR || process.cwd(), pathString);
+}
+
 function main() {
-    if (process.argv.length != 3) {
-        console.log("Usage: auto-gardener <context-id>");
-        printAvailableContexts();
+    const commandLine = parseCommandLine(process.argv.slice(2), commandNames, "report");
+    if (hasOption(commandLine, "timings")) {
+        // Commands return from many places, some of them asynchronously.
+        process.on("exit", printTimings);
+    }
+    let config: GardenerConfig;
+    try {
+        const configPath = getOption(commandLine, "config");
+        config = loadConfig(configPath != null ? resolveCommandLinePath(configPath) : null);
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+        return;
+    }
+    const availableContexts = config.contexts;
+
+    const contextCount = commandLine.positionalArgs.length;
+    if ((contextCount == 0 && allContextsByDefaultCommandNames.indexOf(commandLine.command) == -1) || (contextCount > 1 && multiContextCommandNames.indexOf(commandLine.command) == -1)
+        || findUnknownOption(commandLine, globalOptionNames.concat(commandOptionNames[commandLine.command] || [])) != null)
+    {
+        printUsage(availableContexts);
         process.exit(1);
         return;
     }
 
-    const chosenContextId = process.argv[2];
+    const chosenContextIds = contextCount > 0 ? commandLine.positionalArgs : availableContexts.map(ctx => ctx.id);
+    const testContexts = new Array<TestContext>();
+    for (let chosenContextId of chosenContextIds) {
+        const testContext = availableContexts.find(ctx => ctx.id == chosenContextId);
+        if (!testContext) {
+            console.error(`Unknown context: ${chosenContextId}`);
+            printAvailableContexts(availableContexts);
+            process.exit(1);
+            return;
+        }
+        testContexts.push(testContext);
+    }
 
-    const testContext = availableContexts.find(ctx => ctx.id == chosenContextId);
-    if (!testContext) {
-        console.error(`Unknown context: ${chosenContextId}`);
-        printAvailableContexts();
+    if (commandLine.command == "fetch") {
+        const maxAgeHours = parseFloat(getOption(commandLine, "max-age") || "24");
+        if (!(maxAgeHours > 0)) {
+            console.error(`Invalid maximum age: ${getOption(commandLine, "max-age")}`);
+            process.exit(1);
+            return;
+        }
+        if (hasOption(commandLine, "offline")) {
+            const oldCount = checkCachedResults(testContexts, maxAgeHours);
+            process.exit(oldCount > 0 ? 1 : 0);
+            return;
+        }
+        const resultsOnly = hasOption(commandLine, "results-only");
+        fetchContexts(config, testContexts, resultsOnly).then(() => {
+            // The results and TestExpectations are already there, a failure to download the bugs must not lose them.
+            return resultsOnly ? undefined : fetchBugs(config, testContexts).catch(error => {
+                console.warn(`bugs: warning: ${error.message}`);
+            });
+        }).then(() => {
+            const snapshotName = archiveSnapshot(testContexts);
+            console.log(snapshotName ? `Archived as snapshot ${snapshotName}`
+                : "Nothing changed since the latest snapshot, not archived");
+        }).catch(error => {
+            console.error(`Fetch failed: ${error.message}`);
+            process.exit(1);
+        });
+        return;
+    }
+
+    if (commandLine.command == "diff") {
+        const snapshotNames = listSnapshots(testContexts[0]);
+        const toSnapshotName = getOption(commandLine, "to") || snapshotNames[snapshotNames.length - 1];
+        const fromSnapshotName = getOption(commandLine, "from")
+            || snapshotNames.filter(name => name < toSnapshotName).pop();
+        if (!fromSnapshotName || !toSnapshotName) {
+            console.error(`Not enough snapshots of ${testContexts[0].id} to compare, run \`auto-gardener fetch\` first.`);
+            process.exit(1);
+            return;
+        }
+        for (let snapshotName of [fromSnapshotName, toSnapshotName]) {
+            if (snapshotNames.indexOf(snapshotName) == -1) {
+                console.error(`Unknown snapshot: ${snapshotName}`);
+                console.error(`Available snapshots: ${snapshotNames.join(", ") || "none"}`);
+                process.exit(1);
+                return;
+            }
+        }
+        const [fromContext, toContext] = [fromSnapshotName, toSnapshotName]
+            .map(snapshotName => snapshotContext(testContexts[0], snapshotName));
+        const missingSnapshotFiles = findMissingContextFiles(fromContext).concat(findMissingContextFiles(toContext));
+        if (missingSnapshotFiles.length > 0) {
+            missingSnapshotFiles.forEach(message => console.error(message));
+            process.exit(1);
+            return;
+        }
+        const fromResults = loadContext(fromContext).botTestsResults;
+        const toResults = loadContext(toContext).botTestsResults;
+        printSnapshotDiff(fromResults, toResults, fromSnapshotName, toSnapshotName,
+            diffUnexpectedResults(fromResults, toResults));
+        return;
+    }
+
+    const missingFiles = new Array<string>().concat(...testContexts.map(findMissingContextFiles));
+    if (missingFiles.length > 0) {
+        missingFiles.forEach(message => console.error(message));
+        console.error("Run `auto-gardener fetch` or check the paths in the configuration file.");
         process.exit(1);
         return;
     }
 
-    const allExpectations: TestExpectation[] = Array.prototype.concat.apply([],
-        testContext.testExpectationPaths.map(
-            path => parseExpectations(`${__dirname}/expectations/${path}`)));
+    const format = getOption(commandLine, "format") || "ansi";
+    if (reportFormats.indexOf(format) == -1) {
+        console.error(`Unknown format: ${format}`);
+        process.exit(1);
+        return;
+    }
+
+    const grouping = getOption(commandLine, "group-by") || "outcome";
+    if (reportGroupings.indexOf(grouping) == -1) {
+        console.error(`Unknown grouping: ${grouping}`);
+        process.exit(1);
+        return;
+    } else if (grouping != "outcome" && format != "ansi") {
+        console.error(`--group-by=${grouping} is only supported by the ansi format`);
+        process.exit(1);
+        return;
+    }
+
+    let bugs: BugDatabase | null = null;
+    try {
+        if (commandLine.command == "report" || commandLine.command == "bugs") {
+            bugs = loadBugs(config.bugsPath);
+        }
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+        return;
+    }
+    if (!bugs && (commandLine.command == "bugs" || grouping != "outcome")) {
+        console.error(`No bugs found in ${config.bugsPath}.`);
+        console.error("Run `auto-gardener fetch` or save a Bugzilla REST API response for the bugs there.");
+        process.exit(1);
+        return;
+    }
+
+    let filters: ReportFilters;
+    try {
+        filters = parseReportFilters(commandLine);
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+        return;
+    }
+
+    const loadedContexts = testContexts.map(loadContext);
+    if (commandLine.command != "lint" && commandLine.command != "notify") {
+        warnAboutExpectationDiagnostics(loadedContexts);
+    }
+
+    if (commandLine.command == "stale") {
+        printStaleExpectations(findStaleExpectations(loadedContexts));
+        return;
+    } else if (commandLine.command == "compare") {
+        printContextComparison(loadedContexts, compareContexts(loadedContexts));
+        return;
+    } else if (commandLine.command == "bugs") {
+        printResolvedBugExpectations(findResolvedBugExpectations(loadedContexts, bugs!));
+        return;
+    } else if (commandLine.command == "notify") {
+        notifyChanges(config.notify, loadedContexts, hasOption(commandLine, "dry-run")).catch(error => {
+            console.error(`Notify failed: ${error.message}`);
+            process.exit(1);
+        });
+        return;
+    }
 
-    const botTestsResults = constructBotTestsResultsFromJson(testContext, allExpectations,
-        `${__dirname}/results/${testContext.id}.json`);
+    if (commandLine.command == "lint") {
+        const warnings = lintExpectations(loadedContexts[0]);
+        printLintWarnings(warnings);
+        process.exit(warnings.length > 0 ? 1 : 0);
+        return;
+    }
 
-    findTestsWithInvalidExpectations(botTestsResults);
+    const {expectationFiles, botTestsResults} = loadedContexts[0];
+    if (commandLine.command == "triage") {
+        triageTests(commandLine, botTestsResults);
+        return;
+    }
+    if (commandLine.command == "regressions") {
+        const clusters = clusterRegressions(botTestsResults);
+        const checkoutOption = getOption(commandLine, "webkit-checkout");
+        const checkoutPath = checkoutOption != null ? resolveCommandLinePath(checkoutOption) : null;
+        let suspectsByCluster: Map<RegressionCluster, SuspectCommit[]> | null = null;
+        if (checkoutPath != null) {
+            try {
+                checkWebKitCheckout(checkoutPath);
+                suspectsByCluster = new Map<RegressionCluster, SuspectCommit[]>();
+                for (let cluster of clusters) {
+                    const testHistories = new Array<TestHistory>().concat(
+                        ...cluster.signatureGroups.map(group => group.testHistories));
+                    suspectsByCluster.set(cluster,
+                        findSuspectCommits(checkoutPath, cluster.revisionRange, testHistories));
+                }
+            } catch (e) {
+                console.error(e.message);
+                process.exit(1);
+                return;
+            }
+        }
+        printRegressionClusters(botTestsResults, clusters, suspectsByCluster);
+        return;
+    } else if (commandLine.command == "flakiness") {
+        const sortKey = (getOption(commandLine, "sort") || "score") as FlakinessSortKey;
+        if (flakinessSortKeys.indexOf(sortKey) == -1) {
+            console.error(`Unknown sort order: ${sortKey}`);
+            process.exit(1);
+            return;
+        }
+        printFlakinessReport(botTestsResults, analyzeBotFlakiness(botTestsResults, sortKey));
+        return;
+    } else if (commandLine.command == "slow") {
+        const timeoutOption = getOption(commandLine, "timeout");
+        const timeoutSeconds = timeoutOption != null ? parseFloat(timeoutOption)
+            : defaultTimeoutSeconds(botTestsResults.context.buildType);
+        if (!(timeoutSeconds > 0)) {
+            console.error(`Invalid timeout: ${timeoutOption}`);
+            process.exit(1);
+            return;
+        }
+        printSlowTestsReport(botTestsResults, findSlowTests(botTestsResults, timeoutSeconds));
+        return;
+    }
+
+    const testHistoriesWithInvalidExpectations = applyReportFilters(botTestsResults,
+        findTestsWithInvalidExpectations(botTestsResults), filters);
+    if (commandLine.command == "patch") {
+        process.stdout.write(generateExpectationsPatch(botTestsResults, expectationFiles,
+            testHistoriesWithInvalidExpectations));
+        return;
+    }
+
+    const reportedTestHistories = withoutIgnoredTests(testHistoriesWithInvalidExpectations);
+    if (commandLine.command == "tui") {
+        try {
+            runReportBrowser(loadedContexts[0], reportedTestHistories);
+        } catch (e) {
+            console.error(e.message);
+            process.exit(1);
+            return;
+        }
+    } else if (format == "json") {
+        const jsonReport = buildJsonReport(botTestsResults, reportedTestHistories);
+        process.stdout.write(JSON.stringify(jsonReport, null, 2) + "\n");
+    } else if (format == "html") {
+        process.stdout.write(renderHtmlReport(botTestsResults, reportedTestHistories, bugs));
+    } else if (format == "markdown" || format == "text") {
+        process.stdout.write(renderDigest(botTestsResults, expectationFiles, reportedTestHistories, format, bugs)
+            + "\n");
+    } else {
+        const groups = grouping == "outcome"
+            ? groupTestHistoriesForReport(botTestsResults, reportedTestHistories)
+                .map(([outcome, histories]): [string, TestHistory[]] =>
+                    [`Unexpected ${TestOutcome[outcome]}`, histories])
+            : groupTestHistoriesByBug(botTestsResults, reportedTestHistories, bugs!,
+                grouping as BugGroupField);
+        printGardeningReport(botTestsResults, groups, bugs);
+    }
 }
 
-main();
\ No newline at end of file
+// Only when run as a script, so the checks can import this module.
+if (require.main === module) {
+    main();
+}
\ No newline at end of file
@@ -0,0 +1,292 @@
+import * as fs from "fs";
+import * as os from "os";
+import {execSync} from "child_process";
+import {findTestsWithInvalidExpectations, LoadedContext, TestHistory, TestOutcome} from "./main";
+import {NotifyConfig} from "./contexts";
+import {httpPost, writeFileAtomically} from "./fetch-results";
+
+const hookTimeoutMs = 60000;
+
+/**
+ * What was last notified about every context. Tests are compared against it instead of against the previous run, so
+ * changes held back by the rate limit or the quiet period are notified later if they still hold.
+ */
+export interface NotifyState {
+    contexts: {[contextId: string]: NotifiedContext};
+    lastNotificationTime: string | null; // ISO 8601
+}
+
+interface NotifiedContext {
+    unexpectedTests: string[]; // tests with unexpected results as of their last notification
+    testNotificationTimes: {[testPath: string]: string}; // ISO 8601, only for tests still in their quiet period
+}
+
+export interface NotifiedTest {
+    testPath: string;
+    outcome: string | null; // TestOutcome name of the latest result, null if the test is gone from the results
+}
+
+export interface ContextChanges {
+    contextId: string;
+    botsPlatformName: string;
+    revision: number;
+    buildNumber: number;
+    newFailures: NotifiedTest[];
+    recoveries: NotifiedTest[];
+}
+
+export function loadNotifyState(statePath: string): NotifyState {
+    if (!fs.existsSync(statePath)) {
+        return {contexts: {}, lastNotificationTime: null};
+    }
+    const state: NotifyState = JSON.parse(fs.readFileSync(statePath, "utf-8"));
+    if (!state || typeof state.contexts != "object" || state.contexts == null) {
+        throw new Error(`${statePath}: expected an object with a "contexts" object`);
+    }
+    return state;
+}
+
+export function saveNotifyState(state: NotifyState, statePath: string) {
+    writeFileAtomically(statePath, JSON.stringify(state, null, 2) + "\n");
+}
+
+function findUnexpectedTests(loadedContext: LoadedContext): string[] {
+    return findTestsWithInvalidExpectations(loadedContext.botTestsResults)
+        .map(testHistory => testHistory.testPath.toString())
+        .sort();
+}
+
+function isInQuietPeriod(notified: NotifiedContext, testPath: string, quietPeriodMinutes: number, now: Date) {
+    const notificationTime = notified.testNotificationTimes[testPath];
+    return notificationTime != undefined
+        && now.getTime() - new Date(notificationTime).getTime() < quietPeriodMinutes * 60 * 1000;
+}
+
+/**
+ * Returns the tests that started or stopped having unexpected results since they were last notified. Tests notified
+ * less than the quiet period ago are left out, so a flaky test is notified when it starts failing, and not every time
+ * it flips.
+ */
+export function findNotifiableChanges(loadedContext: LoadedContext, notified: NotifiedContext,
+                                      quietPeriodMinutes: number, now: Date): ContextChanges {
+    const botTestsResults = loadedContext.botTestsResults;
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const testHistories = new Map(botTestsResults.testHistories.map(
+        history => [history.testPath.toString(), history] as [string, TestHistory]));
+    const notifiedTest = (testPath: string): NotifiedTest => {
+        const testHistory = testHistories.get(testPath);
+        const latestResult = testHistory ? testHistory.getTestResult(latestRevision) : null;
+        return {testPath: testPath, outcome: latestResult ? TestOutcome[latestResult.outcome] : null};
+    };
+    const isNotifiable = (testPath: string) => !isInQuietPeriod(notified, testPath, quietPeriodMinutes, now);
+
+    const unexpectedTests = findUnexpectedTests(loadedContext);
+    return {
+        contextId: botTestsResults.context.id,
+        botsPlatformName: botTestsResults.context.botsPlatformName,
+        revision: latestRevision,
+        buildNumber: botTestsResults.buildNumbers[0],
+        newFailures: unexpectedTests
+            .filter(testPath => notified.unexpectedTests.indexOf(testPath) == -1 && isNotifiable(testPath))
+            .map(notifiedTest),
+        recoveries: notified.unexpectedTests
+            .filter(testPath => unexpectedTests.indexOf(testPath) == -1 && isNotifiable(testPath))
+            .map(notifiedTest),
+    };
+}
+
+function recordNotifiedChanges(notified: NotifiedContext, changes: ContextChanges, quietPeriodMinutes: number,
+                               now: Date) {
+    const unexpectedTests = new Set(notified.unexpectedTests);
+    for (let {testPath} of changes.newFailures) {
+        unexpectedTests.add(testPath);
+        notified.testNotificationTimes[testPath] = now.toISOString();
+    }
+    for (let {testPath} of changes.recoveries) {
+        unexpectedTests.delete(testPath);
+        notified.testNotificationTimes[testPath] = now.toISOString();
+    }
+    notified.unexpectedTests = Array.from(unexpectedTests).sort();
+    for (let testPath of Object.keys(notified.testNotificationTimes)) {
+        if (!isInQuietPeriod(notified, testPath, quietPeriodMinutes, now)) {
+            delete notified.testNotificationTimes[testPath];
+        }
+    }
+}
+
+function countChanges(changes: ContextChanges[], field: "newFailures" | "recoveries"): number {
+    return changes.reduce((total, contextChanges) => total + contextChanges[field].length, 0);
+}
+
+function notificationSubject(changes: ContextChanges[]): string {
+    const failureCount = countChanges(changes, "newFailures");
+    return `auto-gardener: ${failureCount} new unexpected ${failureCount == 1 ? "result" : "results"}, ${
+        countChanges(changes, "recoveries")} recovered`;
+}
+
+function notificationText(changes: ContextChanges[]): string {
+    const lines = new Array<string>();
+    for (let contextChanges of changes) {
+        lines.push(`${contextChanges.botsPlatformName} (${contextChanges.contextId}), r${contextChanges.revision}, build ${
+            contextChanges.buildNumber}`);
+        for (let [title, tests] of [
+            ["New unexpected results", contextChanges.newFailures],
+            ["Recovered", contextChanges.recoveries],
+        ] as [string, NotifiedTest[]][]) {
+            if (tests.length > 0) {
+                lines.push(`  ${title} (${tests.length}):`);
+                lines.push(...tests.map(test => `    ${test.testPath} ${test.outcome || "no results"}`));
+            }
+        }
+        lines.push("");
+    }
+    return lines.join("\n");
+}
+
+/**
+ * The date of the `From ` line that starts every message of an mbox file, e.g. "Mon Oct 19 10:00:00 2026".
+ */
+function mboxDate(time: Date): string {
+    const [weekday, day, month, year, clock] = time.toUTCString().replace(",", "").split(" ");
+    return `${weekday} ${month} ${day} ${clock} ${year}`;
+}
+
+function appendToMailSpool(config: NotifyConfig, subject: string, text: string, now: Date) {
+    const message = [
+        `From auto-gardener ${mboxDate(now)}`,
+        `From: auto-gardener <auto-gardener@${os.hostname()}>`,
+        `To: ${config.mailTo}`,
+        `Subject: ${subject}`,
+        `Date: ${now.toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        // Lines starting with "From " would start a new message.
+        text.replace(/^(>*From )/gm, ">$1"),
+        "",
+    ].join("\n");
+    fs.appendFileSync(config.mailSpoolPath!, message);
+}
+
+async function postToWebhook(config: NotifyConfig, subject: string, text: string, changes: ContextChanges[]) {
+    // "text" is what chat services like Slack or Mattermost show.
+    const body = JSON.stringify({text: `${subject}\n\n${text}`, subject: subject, changes: changes});
+    const response = await httpPost(config.webhookUrl!, {"Content-Type": "application/json"}, body);
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+        throw new Error(`HTTP ${response.statusCode} for ${config.webhookUrl}`);
+    }
+}
+
+function runCommand(config: NotifyConfig, subject: string, text: string, changes: ContextChanges[]) {
+    execSync(config.command!, {
+        input: text,
+        stdio: ["pipe", "inherit", "inherit"],
+        timeout: hookTimeoutMs,
+        env: Object.assign({}, process.env, {
+            GARDENER_SUBJECT: subject,
+            GARDENER_NEW_FAILURES: String(countChanges(changes, "newFailures")),
+            GARDENER_RECOVERIES: String(countChanges(changes, "recoveries")),
+        }),
+    });
+}
+
+/**
+ * Calls every configured hook, or prints the notification if there are none. Throws if every hook failed, as the
+ * changes were not notified anywhere.
+ */
+async function sendNotification(config: NotifyConfig, changes: ContextChanges[], now: Date) {
+    const subject = notificationSubject(changes);
+    const text = notificationText(changes);
+    const hooks = new Array<{name: string, run: () => Promise<void> | void}>();
+    if (config.command) {
+        hooks.push({name: "command", run: () => runCommand(config, subject, text, changes)});
+    }
+    if (config.webhookUrl) {
+        hooks.push({name: "webhook", run: () => postToWebhook(config, subject, text, changes)});
+    }
+    if (config.mailSpoolPath) {
+        hooks.push({name: "mail spool", run: () => appendToMailSpool(config, subject, text, now)});
+    }
+    if (hooks.length == 0) {
+        console.log(subject);
+        console.log();
+        console.log(text);
+        return;
+    }
+
+    let failedHookCount = 0;
+    for (let hook of hooks) {
+        try {
+            await hook.run();
+        } catch (e) {
+            console.error(`The ${hook.name} hook failed: ${e.message}`);
+            failedHookCount++;
+        }
+    }
+    if (failedHookCount == hooks.length) {
+        throw new Error("No hook succeeded, the changes will be notified again in the next run");
+    }
+}
+
+/**
+ * Notifies the tests of the contexts that started or stopped having unexpected results since the last notification,
+ * at most once every `minIntervalMinutes`. The first run for a context only records its unexpected results, or it
+ * would notify every test failing at the time. Contexts without builds are skipped. With `dryRun`, prints what would be
+ * notified and saves nothing.
+ */
+export async function notifyChanges(config: NotifyConfig, loadedContexts: LoadedContext[], dryRun: boolean,
+                                    now: Date = new Date()) {
+    const state = loadNotifyState(config.statePath);
+    const changes = new Array<ContextChanges>();
+    const baselineContextIds = new Array<string>();
+    for (let loadedContext of loadedContexts) {
+        const contextId = loadedContext.botTestsResults.context.id;
+        if (loadedContext.botTestsResults.webkitRevisions.length == 0) {
+            console.warn(`${contextId}: warning: no builds in the results, skipped`);
+            continue;
+        }
+        const notified = state.contexts[contextId];
+        if (!notified) {
+            state.contexts[contextId] = {unexpectedTests: findUnexpectedTests(loadedContext), testNotificationTimes: {}};
+            baselineContextIds.push(contextId);
+            continue;
+        }
+        const contextChanges = findNotifiableChanges(loadedContext, notified, config.quietPeriodMinutes, now);
+        if (contextChanges.newFailures.length > 0 || contextChanges.recoveries.length > 0) {
+            changes.push(contextChanges);
+        }
+    }
+
+    const nextNotificationTime = state.lastNotificationTime
+        ? new Date(new Date(state.lastNotificationTime).getTime() + config.minIntervalMinutes * 60 * 1000)
+        : now;
+    if (dryRun) {
+        for (let contextId of baselineContextIds) {
+            console.log(`First run for ${contextId}: its ${state.contexts[contextId].unexpectedTests.length
+                } tests with unexpected results would be recorded as a baseline, without notifying them.`);
+        }
+        if (changes.length == 0) {
+            if (baselineContextIds.length == 0) {
+                console.log("Nothing to notify.");
+            }
+        } else {
+            if (nextNotificationTime > now) {
+                console.log(`Rate limited until ${nextNotificationTime.toISOString()}, this would be sent then:`);
+                console.log();
+            }
+            console.log(notificationSubject(changes));
+            console.log();
+            console.log(notificationText(changes));
+        }
+        return;
+    }
+
+    if (changes.length > 0 && nextNotificationTime <= now) {
+        await sendNotification(config, changes, now);
+        for (let contextChanges of changes) {
+            recordNotifiedChanges(state.contexts[contextChanges.contextId], contextChanges, config.quietPeriodMinutes,
+                now);
+        }
+        state.lastNotificationTime = now.toISOString();
+    }
+    saveNotifyState(state, config.statePath);
+}
\ No newline at end of file
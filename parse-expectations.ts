@@ -1,6 +1,5 @@
 import * as fs from "fs";
 import {Path, TestExpectation, TestOutcome} from "./main";
-import {ensure} from "./functional-utils";
 import {BuildType} from "./contexts";
 
 const dontShowUnexpectedPasses = false;
@@ -53,13 +52,126 @@ function consumeBracketedEntityTokenUnitTests() {
     check(consumeBracketedEntityToken("cc dd "), ["cc dd", null]);
 }
 
-export function parseExpectations(filePath: string): TestExpectation[] {
-    const fileText: string = fs.readFileSync(filePath, "UTF-8");
+/**
+ * A problem found while parsing a line that did not prevent it from being parsed, e.g. an ignored token.
+ */
+export interface ExpectationDiagnostic {
+    lineNo: number;
+    message: string;
+}
+
+export interface ExpectationFile {
+    path: string; // relative to the LayoutTests directory, e.g. "platform/gtk/TestExpectations"
+    lines: string[]; // raw contents, without line terminators
+    expectations: TestExpectation[];
+    diagnostics: ExpectationDiagnostic[];
+}
+
+export function loadExpectationFile(expectationsDir: string, path: string): ExpectationFile {
+    const fileText: string = fs.readFileSync(`${expectationsDir}/${path}`, "UTF-8");
     if (fileText == null) {
         throw new Error("Could not read expectations file");
     }
     const lines = fileText.split("\n");
+    if (lines[lines.length - 1] == "") {
+        // The file ends with a newline
+        lines.pop();
+    }
+
+    const diagnostics = new Array<ExpectationDiagnostic>();
+    return {
+        path: path,
+        lines: lines,
+        expectations: parseExpectations(path, lines, diagnostics),
+        diagnostics: diagnostics,
+    };
+}
+
+/**
+ * Configuration specifiers that may appear in the modifiers bracket, besides the build type, by category. A line
+ * applies to a configuration if, for every category used in the line, the configuration has one of its specifiers.
+ */
+const configurationSpecifierCategories: {[lowerCaseSpecifier: string]: string} = {
+    "mac": "os",
+    "win": "os",
+    "linux": "os",
+    "ios": "os",
+    "snowleopard": "os",
+    "lion": "os",
+    "mountainlion": "os",
+    "mavericks": "os",
+    "yosemite": "os",
+    "elcapitan": "os",
+    "sierra": "os",
+    "highsierra": "os",
+    "mojave": "os",
+    "xp": "os",
+    "vista": "os",
+    "win7": "os",
+    "win10": "os",
+    "x86": "architecture",
+    "x86_64": "architecture",
+    "arm": "architecture",
+    "arm64": "architecture",
+};
+
+/**
+ * Returns the category of a configuration specifier, e.g. "os" for Mac. Unknown specifiers get a category of their own.
+ */
+export function specifierCategory(specifier: string): string {
+    return configurationSpecifierCategories[specifier.toLowerCase()] || `unknown ${specifier}`;
+}
 
+/**
+ * Returns the outcomes a keyword of the outcome list stands for, or null if the keyword is unknown.
+ */
+function parseOutcomeKeyword(keyword: string): TestOutcome[] | null {
+    switch (keyword) {
+        case "NoData":
+        case "Unknown":
+            // Not keywords, just our way to represent missing or unreadable results.
+            return null;
+        case "Text":
+        case "Audio":
+        case "ImagePlusText":
+        case "PassWithStderr":
+            // Only found in results, TestExpectations use Failure and Pass for them.
+            return null;
+        case "DumpJSConsoleLogInStdErr":
+            // Changes how the test is run, not its outcome.
+            return [];
+        case "Rebaseline":
+        case "NeedsRebaseline":
+        case "NeedsManualRebaseline":
+            // Same as webkitpy: any result that new baselines would fix is accepted.
+            return [TestOutcome.Pass, TestOutcome.Failure, TestOutcome.ImageOnlyFailure, TestOutcome.Missing];
+    }
+    const outcome = TestOutcome[keyword as keyof typeof TestOutcome];
+    return typeof outcome == "number" ? [outcome] : null;
+}
+
+function parseBugToken(token: string): {bugId: number} | {bugMarker: string} | null {
+    const bugIdPatterns = [
+        /^webkit\.org\/b\/(\d+)$/,
+        /^https?:\/\/(?:bugs\.)?webkit\.org\/(?:b\/|show_bug\.cgi\?id=)(\d+)$/,
+        /^Bug\((\d+)\)$/,
+        /^BUGWK(\d+)$/,
+    ];
+    for (let pattern of bugIdPatterns) {
+        const match = pattern.exec(token);
+        if (match) {
+            return {bugId: parseInt(match[1])};
+        }
+    }
+    if (/^Bug\([^)]+\)$/.test(token)) {
+        // e.g. Bug(username), marks who is in charge of the test
+        return {bugMarker: token};
+    }
+    return null;
+}
+
+export function parseExpectations(filePath: string, lines: string[],
+                                  diagnostics: ExpectationDiagnostic[] = []): TestExpectation[] {
     const collectedExpectations = new Array<TestExpectation>()
     let lineNo = 0;
 
@@ -78,13 +190,15 @@ export function parseExpectations(filePath: string): TestExpectation[] {
         let outcomesString: string | null;
         [line, outcomesString] = consumeBracketedEntityToken(line);
         if (outcomesString) {
-            outcomes = new Set<TestOutcome>(outcomesString
-                .split(" ")
-                .map(x => x.trim())
-                .filter(x => x != "")
-                .map(str => ensure(TestOutcome[str as keyof typeof TestOutcome],
-                    `Unknown outcome at line ${lineNo}: "${str}"`))
-                .filter(x => x != TestOutcome.DumpJSConsoleLogInStdErr));
+            outcomes = new Set<TestOutcome>();
+            for (let keyword of outcomesString.split(/\s+/).filter(x => x != "")) {
+                const keywordOutcomes = parseOutcomeKeyword(keyword);
+                if (keywordOutcomes) {
+                    keywordOutcomes.forEach(outcome => outcomes.add(outcome));
+                } else {
+                    diagnostics.push({lineNo: lineNo, message: `Unknown outcome ignored: "${keyword}"`});
+                }
+            }
 
             if (outcomes.size == 0) {
                 outcomes = new Set([TestOutcome.Pass]);
@@ -93,51 +207,61 @@ export function parseExpectations(filePath: string): TestExpectation[] {
                 outcomes.add(TestOutcome.Pass);
             }
         } else {
-            // console.warn(`Could not parse expected outcomes at line ${lineNo}: "${line}"`);
             // Consider as Skip
+            diagnostics.push({lineNo: lineNo, message: "No outcome list, the line is considered [ Skip ]"});
             outcomes = new Set([TestOutcome.Skip]);
         }
 
         let testPathString: string | null;
         [line, testPathString] = consumeWordToken(line);
-        if (!testPathString) {
-            console.warn(`Could not parse test path at line ${lineNo}: "${line}"`);
+        if (!testPathString || /[\[\]]/.test(testPathString)) {
+            diagnostics.push({lineNo: lineNo, message: "Could not find the test path, the line is ignored"});
             continue;
         }
-        const testPath = new Path(testPathString.split("/"));
-
-        let buildTypeConstraintString: string | null;
-        [line, buildTypeConstraintString] = consumeBracketedEntityToken(line);
-        let buildTypeConstraint: BuildType | null;
-        if (buildTypeConstraintString) {
-            buildTypeConstraint = ensure(BuildType[buildTypeConstraintString as keyof typeof BuildType],
-                `Unknown build type at line ${lineNo}: "${buildTypeConstraintString}"`);
-        } else {
-            // No build type constraint
-            buildTypeConstraint = null;
+        const testPathEntries = testPathString.split("/");
+        if (testPathEntries.length > 1 && testPathEntries[testPathEntries.length - 1] == "") {
+            // Directory written with a trailing slash
+            testPathEntries.pop();
         }
+        const testPath = new Path(testPathEntries);
 
-        let bugIds = new Array<number>();
-        while (line != "") {
-            let bugString: string | null;
-            [line, bugString] = consumeWordToken(line);
-            if (bugString) {
-                const match = /^webkit.org\/b\/(\d+)\s*$/.exec(bugString);
-                if (match) {
-                    const bugId = parseInt(match[1]);
-                    if (Number.isNaN(bugId)) {
-                        throw new Error(`Invalid bug number: "${match[1]}"`);
-                    }
-                    bugIds.push(bugId);
-                }
+        let modifiersString: string | null;
+        [line, modifiersString] = consumeBracketedEntityToken(line);
+        const buildTypes = new Set<BuildType>();
+        const specifiersByCategory = new Map<string, string[]>();
+        for (let modifier of modifiersString ? modifiersString.split(/\s+/) : []) {
+            const buildType = BuildType[modifier as keyof typeof BuildType];
+            if (typeof buildType == "number") {
+                buildTypes.add(buildType);
+                continue;
+            } else if (!(modifier.toLowerCase() in configurationSpecifierCategories)) {
+                // Specifiers of an unknown category are never matched.
+                diagnostics.push({
+                    lineNo: lineNo,
+                    message: `Unknown modifier "${modifier}", the line will not apply to any context`,
+                });
             }
+            const category = specifierCategory(modifier);
+            specifiersByCategory.set(category, (specifiersByCategory.get(category) || []).concat(modifier));
         }
+        // A line for both build types has no build type constraint.
+        const buildTypeConstraint: BuildType | null = buildTypes.size == 1 ? Array.from(buildTypes)[0] : null;
 
-        if (line != "") {
-            throw new Error(`Unparsed line contents remain at line ${lineNo}: "${line}"`);
+        const bugIds = new Array<number>();
+        const bugMarkers = new Array<string>();
+        for (let token of line.split(/\s+/).filter(x => x != "")) {
+            const bug = parseBugToken(token);
+            if (!bug) {
+                diagnostics.push({lineNo: lineNo, message: `Unrecognized token ignored: "${token}"`});
+            } else if ("bugId" in bug) {
+                bugIds.push(bug.bugId);
+            } else {
+                bugMarkers.push(bug.bugMarker);
+            }
         }
 
-        const newExpectation = new TestExpectation(lineNo, testPath, bugIds, outcomes, buildTypeConstraint)
+        const newExpectation = new TestExpectation(filePath, lineNo, testPath, bugIds, outcomes, buildTypeConstraint,
+            Array.from(specifiersByCategory.values()), bugMarkers);
         collectedExpectations.push(newExpectation);
     }
 
@@ -7,8 +7,11 @@ import {
     TestOutcome,
     TestResult
 } from "./main";
-import {ensure, maxBy} from "./functional-utils";
-import {BuildType, TestContext} from "./contexts";
+import {ensure} from "./functional-utils";
+import {TestContext} from "./contexts";
+import {dataFetchTime} from "./fetch-results";
+import {ExpectationIndex} from "./expectation-index";
+import {measure} from "./timings";
 
 interface JSONTestsResultsRoot {
     [platformName: string]: JSONTestsResultsPlatform;
@@ -35,10 +38,10 @@ type JSONTestOutcomeHistoryEntry = [
     JSONTestOutcomeLetter // outcome
     ];
 
-interface JSONTestTimesHistoryEntry {
-    0: number; // number of occurrences
-    1: number; // time in seconds
-}
+type JSONTestTimesHistoryEntry = [
+    number, // number of occurrences
+    number // time in seconds
+    ];
 
 function getTestsResultsJsonPlatformName(jsonRoot: JSONTestsResultsRoot) {
     for (let key in jsonRoot) {
@@ -49,84 +52,89 @@ function getTestsResultsJsonPlatformName(jsonRoot: JSONTestsResultsRoot) {
     throw new Error("Could not find platform name in tests results JSON root.");
 }
 
-function parseOutcomeString(outcomeString: JSONTestOutcomeLetter): TestOutcome {
+/**
+ * Returns the oldest and newest revisions tested in a results JSON file without building the test histories.
+ */
+export function findResultsRevisionRange(resultsJsonText: string): {oldest: number, newest: number} | null {
+    const resultsJson: JSONTestsResultsRoot = JSON.parse(resultsJsonText);
+    const webkitRevisions = resultsJson[getTestsResultsJsonPlatformName(resultsJson)].webkitRevision
+        .map(x => parseInt(x));
+    if (webkitRevisions.length == 0) {
+        return null;
+    }
+    // Not Math.min(...webkitRevisions), which overflows the stack with long histories.
+    return {
+        oldest: webkitRevisions.reduce((oldest, revision) => Math.min(oldest, revision)),
+        newest: webkitRevisions.reduce((newest, revision) => Math.max(newest, revision)),
+    };
+}
+
+/**
+ * Returns null for letters this version does not know about.
+ */
+function parseOutcomeString(outcomeString: JSONTestOutcomeLetter): TestOutcome | null {
     const outcomeDict: { [key: string]: TestOutcome } = {
         "N": TestOutcome.NoData, // no data,
         "P": TestOutcome.Pass,
-        "F": TestOutcome.Failure,
+        "E": TestOutcome.PassWithStderr,
+        "F": TestOutcome.Text,
+        "A": TestOutcome.Audio,
+        "Z": TestOutcome.ImagePlusText,
         "C": TestOutcome.Crash,
         "T": TestOutcome.Timeout,
         "I": TestOutcome.ImageOnlyFailure,
-        "A": TestOutcome.Failure, // AudioOnlyFailure?
+        "L": TestOutcome.Leak,
         "O": TestOutcome.Missing,
         "X": TestOutcome.Skip,
     };
-    if (!(outcomeString in outcomeDict)) {
-        throw new Error(`Unknown test outcome string: "${outcomeString}"`);
-    }
-    return outcomeDict[outcomeString];
-}
-
-function findMostSpecificExpectation(allExpectations: TestExpectation[],
-                                     testPath: Path,
-                                     buildType: BuildType): TestExpectation | null {
-    const matches = allExpectations.filter(expectation => expectation.matchesTest(testPath, buildType));
-    return maxBy(matches, expectation => expectation.testPath.entries.length);
-}
-
-/**
- * For some reason sometimes the same revision is tested twice.
- * Remove the data from the most recent runs so there is only one build per revision.
- */
-function cleanDuplicateBuilds(webkitRevisions: number[], collectedTestHistories: TestHistory[]) {
-    let lastRevision: number | null = null;
-    let indicesToRemove = new Set<number>();
-    for (let i = webkitRevisions.length - 1; i >= 0; i--) {
-        const currentRevision = webkitRevisions[i];
-        if (currentRevision == lastRevision) {
-            // Remove the newer one
-            indicesToRemove.add(i);
-        }
-
-        lastRevision = currentRevision;
-    }
-
-    const cleanWebkitRevisions = webkitRevisions.filter((_, i) => !indicesToRemove.has(i));
-
-    // Replace the old webkitRevisions array contents
-    Array.prototype.splice.apply(webkitRevisions, [0, webkitRevisions.length].concat(cleanWebkitRevisions));
-
-    for (let testHistory of collectedTestHistories) {
-        testHistory.lastResults = testHistory.lastResults.filter((_, i) => !indicesToRemove.has(i));
-    }
+    return outcomeString in outcomeDict ? outcomeDict[outcomeString] : null;
 }
 
 export function constructBotTestsResultsFromJson(context: TestContext,
-                                                 allExpectations: TestExpectation[],
+                                                 expectationsByPriority: TestExpectation[][], // most priority first
                                                  testsResultsPath: string): BotsTestResults {
-    const resultsJson: JSONTestsResultsRoot = JSON.parse(fs.readFileSync(testsResultsPath, "utf-8"));
+    const resultsJson: JSONTestsResultsRoot = measure("reading results",
+        () => JSON.parse(fs.readFileSync(testsResultsPath, "utf-8")));
     if ((<any>resultsJson).version != 4) {
         console.warn("JSON format version has changed!");
     }
 
     const jsonResultsPlatform = resultsJson[getTestsResultsJsonPlatformName(resultsJson)];
     const collectedTestHistories = new Array<TestHistory>();
+    // One entry per build. Sometimes the same revision is tested in several builds, the test histories keep all of
+    // them as retries.
     const webkitRevisions = jsonResultsPlatform.webkitRevision.map(x => parseInt(x));
+    const buildNumbers = jsonResultsPlatform.buildNumbers.map(x => parseInt(x));
+    const unknownOutcomeStrings = new Set<string>();
 
-    function collectTestHistory(testPathNodes: string[], jsonTest: JSONTest) {
-        const testPath = new Path(testPathNodes);
-        const expectation = findMostSpecificExpectation(allExpectations, testPath, context.buildType);
+    function collectTestHistory(testPath: Path, jsonTest: JSONTest, expectation: TestExpectation | null) {
+        const runTimes = new Array<number>();
+        for (let [occurrences, runTime] of jsonTest.times) {
+            for (let i = 0; i < occurrences; i++) {
+                runTimes.push(runTime);
+            }
+        }
 
         const lastResults = new Array<TestResult>();
         let webkitRevisionIndex = 0;
         for (let [occurrences, outcomeString] of jsonTest.results) {
-            const outcome = parseOutcomeString(outcomeString);
+            let outcome = parseOutcomeString(outcomeString);
+            if (outcome == null) {
+                if (!unknownOutcomeStrings.has(outcomeString)) {
+                    console.warn(`${testsResultsPath}: unknown test outcome "${outcomeString}", shown as Unknown.`);
+                    unknownOutcomeStrings.add(outcomeString);
+                }
+                outcome = TestOutcome.Unknown;
+            }
             for (let i = 0; i < occurrences; i++) {
                 if (webkitRevisionIndex < webkitRevisions.length) {
                     const testResult: TestResult = {
                         webkitRevision: ensure(webkitRevisions[webkitRevisionIndex],
                             `Could not find revision #${webkitRevisionIndex}`),
+                        buildNumber: ensure(buildNumbers[webkitRevisionIndex],
+                            `Could not find build #${webkitRevisionIndex}`),
                         outcome: outcome,
+                        runTime: webkitRevisionIndex < runTimes.length ? runTimes[webkitRevisionIndex] : null,
                     };
                     lastResults.push(testResult);
                 }
@@ -138,12 +146,12 @@ export function constructBotTestsResultsFromJson(context: TestContext,
         collectedTestHistories.push(newTestHistory);
     }
 
+    const jsonTests = new Array<[Path, JSONTest]>();
     function traverseTestTree(root: string[], folder: JSONTestDirectory) {
         for (let entryName in folder) {
             if (entryName.indexOf(".") != -1 && "results" in folder[entryName] && "times" in folder[entryName]) {
                 // it's a test
-                const jsonTest = <JSONTest>folder[entryName];
-                collectTestHistory(root.concat(entryName), jsonTest);
+                jsonTests.push([new Path(root.concat(entryName)), <JSONTest>folder[entryName]]);
             } else {
                 // it's a folder
                 traverseTestTree(root.concat(entryName), <JSONTestDirectory>folder[entryName]);
@@ -151,14 +159,23 @@ export function constructBotTestsResultsFromJson(context: TestContext,
         }
     }
 
-    traverseTestTree([], jsonResultsPlatform.tests);
+    measure("reading results", () => traverseTestTree([], jsonResultsPlatform.tests));
+
+    const expectations = measure("matching expectations", () => {
+        const expectationIndex = new ExpectationIndex(expectationsByPriority);
+        return jsonTests.map(([testPath, _]) => expectationIndex.findMostSpecificExpectation(testPath, context));
+    });
+    measure("building histories", () => jsonTests.forEach(([testPath, jsonTest], i) =>
+        collectTestHistory(testPath, jsonTest, expectations[i])));
 
-    cleanDuplicateBuilds(webkitRevisions, collectedTestHistories);
+    // The first build of each revision is the most recent one.
+    const isFirstBuildOfRevision = (_: number, i: number) => webkitRevisions.indexOf(webkitRevisions[i]) == i;
 
     return {
-        webkitRevisions: webkitRevisions,
-        buildNumbers: jsonResultsPlatform.buildNumbers.map(x => parseInt(x)),
+        webkitRevisions: webkitRevisions.filter(isFirstBuildOfRevision),
+        buildNumbers: buildNumbers.filter(isFirstBuildOfRevision),
         context: context,
         testHistories: collectedTestHistories,
+        fetchTime: dataFetchTime(testsResultsPath),
     };
 }
\ No newline at end of file
@@ -0,0 +1,121 @@
+import {
+    BotsTestResults,
+    findTestsWithInvalidExpectations,
+    isPassingOutcome,
+    RevisionRange,
+    TestHistory,
+    TestOutcome
+} from "./main";
+import {groupBy, sortedBy} from "./functional-utils";
+import {SuspectCommit} from "./webkit-checkout";
+
+export interface RegressionCluster {
+    revisionRange: RevisionRange; // shared by all the tests in the cluster
+    signatureGroups: SignatureGroup[]; // biggest first
+    testCount: number;
+}
+
+/**
+ * Tests whose expectation was (or was not) matched in exactly the same revisions.
+ */
+export interface SignatureGroup {
+    signature: string;
+    testHistories: TestHistory[];
+}
+
+/**
+ * Returns a string with a character for every revision in the history of the bot, most recent first: "+" if the test
+ * matched its expectation, "-" if it didn't and "." if there is no data for it.
+ */
+export function failureSignature(botTestsResults: BotsTestResults, testHistory: TestHistory): string {
+    return botTestsResults.webkitRevisions.map(revision => {
+        const matchesExpectation = testHistory.matchesExpectation(revision);
+        return matchesExpectation == null ? "." : matchesExpectation ? "+" : "-";
+    }).join("");
+}
+
+/**
+ * Groups the tests that fail unexpectedly in the latest revision by the revision range where they started failing, so
+ * tests broken by the same commit end up together.
+ */
+export function clusterRegressions(botTestsResults: BotsTestResults): RegressionCluster[] {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const failingTestHistories = findTestsWithInvalidExpectations(botTestsResults)
+        .filter(history => !isPassingOutcome(history.getTestResult(latestRevision)!.outcome));
+
+    const rangeByTestHistory = new Map<TestHistory, RevisionRange>();
+    for (let testHistory of failingTestHistories) {
+        rangeByTestHistory.set(testHistory, testHistory.findFirstFailedRevisionRange(botTestsResults));
+    }
+
+    const clusters = Array.from(groupBy(failingTestHistories,
+        history => TestHistory.formatRevisionRangeString(rangeByTestHistory.get(history)!)).values())
+        .map((testHistories): RegressionCluster => {
+            const signatureGroups = Array.from(groupBy(testHistories,
+                history => failureSignature(botTestsResults, history)).entries())
+                .map(([signature, histories]) => ({
+                    signature: signature,
+                    testHistories: sortedBy(histories, history => [history.testPath.toString()]),
+                }));
+
+            return {
+                revisionRange: rangeByTestHistory.get(testHistories[0])!,
+                signatureGroups: sortedBy(signatureGroups, group => [-group.testHistories.length, group.signature]),
+                testCount: testHistories.length,
+            };
+        });
+
+    // Most recent regressions first, the ones without a known range at the end.
+    return sortedBy(clusters, cluster => {
+        const range = cluster.revisionRange;
+        return typeof range == "number" ? [0, -range]
+            : typeof range == "string" ? [1, 0]
+            : [0, -range.end];
+    });
+}
+
+function signatureToColoredString(signature: string): string {
+    return signature.split("").map(character =>
+        character == "+" ? "\x1b[48;5;34m " :
+        character == "-" ? "\x1b[48;5;9m " :
+        "\x1b[48;5;251m ").join("") + "\x1b[0m";
+}
+
+/**
+ * `suspectsByCluster` has the commits of the revision range of every cluster, if a WebKit checkout was given.
+ */
+export function printRegressionClusters(botTestsResults: BotsTestResults, clusters: RegressionCluster[],
+                                        suspectsByCluster: Map<RegressionCluster, SuspectCommit[]> | null) {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+
+    console.log(`\x1b[1;4mRegressions in ${botTestsResults.context.botsPlatformName}/r${latestRevision} (${
+        botTestsResults.buildNumbers[0]})\x1b[21;24m`);
+
+    for (let cluster of clusters) {
+        const testCount = cluster.testCount == 1 ? "1 test" : `${cluster.testCount} tests`;
+        console.log();
+        console.log(`\x1b[1m${TestHistory.formatRevisionRangeString(cluster.revisionRange)}: ${testCount}\x1b[0m`);
+
+        for (let group of cluster.signatureGroups) {
+            console.log(`  ${signatureToColoredString(group.signature)}`);
+            for (let testHistory of group.testHistories) {
+                const outcome = testHistory.getTestResult(latestRevision)!.outcome;
+                const bugIds = testHistory.getExpectationWithDefault().bugIds
+                    .map(bugId => `webkit.org/b/${bugId}`).join(" ");
+                console.log(`    ${testHistory.testPath} \x1b[38;5;245m${TestOutcome[outcome]}${
+                    bugIds ? ` ${bugIds}` : ""}\x1b[0m`);
+            }
+        }
+
+        const suspects = suspectsByCluster ? suspectsByCluster.get(cluster)! : [];
+        if (suspects.length > 0) {
+            console.log("  Commits in the range, most related to the tests first:");
+        }
+        for (let {commit, relatedFileCount} of suspects) {
+            const related = relatedFileCount == 1 ? "1 related file" : `${relatedFileCount} related files`;
+            const details = relatedFileCount > 0 ? `${commit.author}, ${related}` : commit.author;
+            console.log(`    r${commit.svnRevision} \x1b[38;5;245m${commit.hash.slice(0, 10)}\x1b[0m ${
+                commit.title} \x1b[38;5;245m(${details})\x1b[0m`);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import {
+    BotsTestResults,
+    groupResultsByRevision,
+    groupTestHistoriesForReport,
+    TestHistory,
+    TestOutcome,
+    testOutcomeToLetter,
+    ToStringMode
+} from "./main";
+import {groupBy, sortedBy} from "./functional-utils";
+import {triageEntryToString} from "./triage";
+import {BugDatabase, openBugSummaries} from "./bugzilla";
+import {buildLinksForRevision, firstFailedBuild} from "./build-links";
+import {suggestExpectationLine} from "./expectations-patch";
+import {ExpectationFile} from "./parse-expectations";
+
+export type DigestFormat = "markdown" | "text";
+
+/**
+ * Markup for each format. Markdown is meant for Bugzilla comments and anything else rendering it, plain text for
+ * mailing lists. Neither depends on the width of a terminal.
+ */
+interface DigestMarkup {
+    title(text: string): string[];
+    heading(text: string): string[];
+    code(text: string): string; // inline
+    codeBlock(lines: string[]): string[];
+    listItem(text: string): string;
+    link(text: string, url: string): string;
+}
+
+const markdownMarkup: DigestMarkup = {
+    title: text => [`# ${text}`, ""],
+    heading: text => [`## ${text}`, ""],
+    code: text => `\`${text}\``,
+    codeBlock: lines => ["```"].concat(lines, "```", ""),
+    listItem: text => `- ${text}`,
+    link: (text, url) => `[${text}](${url})`,
+};
+
+const textMarkup: DigestMarkup = {
+    title: text => [text, "=".repeat(text.length), ""],
+    heading: text => [text, "-".repeat(text.length), ""],
+    code: text => text,
+    codeBlock: lines => lines.map(line => `    ${line}`).concat(""),
+    listItem: text => `  * ${text}`,
+    link: (text, url) => `${text} (${url})`,
+};
+
+/**
+ * Returns `[name, count]` rows as a Markdown table or as aligned plain text columns.
+ */
+function countTable(format: DigestFormat, header: string, rows: [string, number][]): string[] {
+    if (format == "markdown") {
+        return [`| ${header} | Tests |`, "| --- | ---: |"]
+            .concat(rows.map(([name, count]) => `| ${name} | ${count} |`), "");
+    }
+    const nameWidth = rows.reduce((width, [name, _]) => Math.max(width, name.length), header.length);
+    const pad = (text: string) => text + " ".repeat(nameWidth - text.length);
+    return [`  ${pad(header)}  Tests`]
+        .concat(rows.map(([name, count]) => `  ${pad(name)}  ${count}`), "");
+}
+
+function historyLetters(testHistory: TestHistory): string {
+    return groupResultsByRevision(testHistory.lastResults)
+        .map(results => {
+            const letters = results.map(result => testOutcomeToLetter(result.outcome)).join("");
+            return results.length > 1 ? `(${letters})` : letters;
+        })
+        .join("");
+}
+
+/**
+ * Renders the tests of the report as a digest to paste into bug comments or emails: counts per outcome and per
+ * top-level directory, the tests that started failing within the history of the bot and the expectation lines that
+ * would cover the latest result of every test, grouped like in the other reports.
+ */
+export function renderDigest(botTestsResults: BotsTestResults, expectationFiles: ExpectationFile[],
+                             testHistoriesWithInvalidExpectations: TestHistory[], format: DigestFormat,
+                             bugs: BugDatabase | null): string {
+    const markup = format == "markdown" ? markdownMarkup : textMarkup;
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const outcomeGroups = groupTestHistoriesForReport(botTestsResults, testHistoriesWithInvalidExpectations);
+    const testHistories = new Array<TestHistory>().concat(...outcomeGroups.map(([_, histories]) => histories));
+    const lines = markup.title(`Gardening report for ${botTestsResults.context.botsPlatformName}/r${
+        latestRevision} (${botTestsResults.buildNumbers[0]})`);
+
+    if (botTestsResults.fetchTime) {
+        lines.push(`Results fetched on ${botTestsResults.fetchTime.toUTCString()}.`, "");
+    }
+    const latestBuild = buildLinksForRevision(botTestsResults, latestRevision);
+    if (latestBuild) {
+        lines.push(`${markup.link(`Build ${latestBuild.buildNumber}`, latestBuild.buildUrl)}, ${
+            markup.link("results archive", latestBuild.resultsArchiveUrl)}.`, "");
+    }
+
+    lines.push(...markup.heading("Summary"));
+    lines.push(`${testHistories.length} ${testHistories.length == 1 ? "test does" : "tests do"
+        } not match ${testHistories.length == 1 ? "its expectation" : "their expectations"} in r${latestRevision}.`, "");
+    if (testHistories.length == 0) {
+        return lines.join("\n").replace(/\n+$/, "");
+    }
+    lines.push(...countTable(format, "Outcome", outcomeGroups.map(([outcome, histories]): [string, number] =>
+        [TestOutcome[outcome], histories.length])));
+    const historiesByDirectory = groupBy(testHistories, history =>
+        history.testPath.entries.length > 1 ? `${history.testPath.entries[0]}/` : history.testPath.toString());
+    lines.push(...countTable(format, "Directory",
+        sortedBy(historiesByDirectory.entries(), ([directory, histories]) => [-histories.length, directory])
+            .map(([directory, histories]): [string, number] => [directory, histories.length])));
+
+    const newlyFailing = testHistories
+        .map(testHistory => ({testHistory: testHistory,
+            firstFailed: testHistory.findFirstFailedRevisionRange(botTestsResults)}))
+        .filter(({firstFailed}) => typeof firstFailed != "string");
+    if (newlyFailing.length > 0) {
+        lines.push(...markup.heading(`Newly failing (${newlyFailing.length})`));
+        for (let {testHistory, firstFailed} of newlyFailing) {
+            lines.push(markup.listItem(`${markup.code(testHistory.testPath.toString())}: ${TestOutcome[
+                testHistory.getTestResult(latestRevision)!.outcome]}, first failed in ${
+                TestHistory.formatRevisionRangeString(firstFailed)}`));
+        }
+        lines.push("");
+    }
+
+    for (let [outcome, outcomeHistories] of outcomeGroups) {
+        lines.push(...markup.heading(`Unexpected ${TestOutcome[outcome]} (${outcomeHistories.length})`));
+        for (let testHistory of outcomeHistories) {
+            const details = [`history ${markup.code(historyLetters(testHistory))} (newest first)`];
+            const failedRevisionMessage = testHistory.constructFirstFailedRevisionMessage(botTestsResults);
+            if (failedRevisionMessage) {
+                details.push(failedRevisionMessage.charAt(0).toLowerCase() + failedRevisionMessage.slice(1));
+                const failedBuild = firstFailedBuild(botTestsResults, testHistory);
+                if (failedBuild) {
+                    details.push(`first failed in ${markup.link(`build ${failedBuild.buildNumber}`,
+                        failedBuild.buildUrl)}`);
+                }
+            }
+            details.push(testHistory.expectation
+                ? `expected by ${testHistory.expectation.location()}`
+                : "no expectation");
+            for (let summary of openBugSummaries(bugs, testHistory.expectation)) {
+                details.push(`"${summary}"`);
+            }
+            if (testHistory.triage) {
+                details.push(triageEntryToString(testHistory.triage));
+            }
+            lines.push(markup.listItem(`${markup.code(testHistory.testPath.toString())}: ${details.join(", ")}`));
+        }
+        lines.push("");
+        // The lines `patch` would write, ready to be copied into a TestExpectations file and edited.
+        lines.push(...markup.codeBlock(outcomeHistories.map(testHistory =>
+            suggestExpectationLine(botTestsResults, expectationFiles, testHistory)
+            || testHistory.getExpectationWithDefault().toString(ToStringMode.Normal, testHistory.testPath, ""))));
+    }
+
+    return lines.join("\n").replace(/\n+$/, "");
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import {
+    BotsTestResults,
+    groupResultsByRevision,
+    groupTestHistoriesForReport,
+    TestHistory,
+    TestOutcome,
+    testOutcomeToLetter
+} from "./main";
+import {BuildType} from "./contexts";
+import {groupBy} from "./functional-utils";
+import {triageEntryToString} from "./triage";
+import {BugDatabase, openBugSummaries} from "./bugzilla";
+import {
+    buildLinksForResult,
+    buildLinksForRevision,
+    firstFailedBuild,
+    TestArtifactLink,
+    testArtifactLinks
+} from "./build-links";
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Same colors as `testOutcomeToColor()` uses in the terminal.
+ */
+function testOutcomeToCssColor(outcome: TestOutcome): string {
+    switch (outcome) {
+        case TestOutcome.NoData:
+        case TestOutcome.Missing:
+        case TestOutcome.Skip:
+        case TestOutcome.WontFix:
+        case TestOutcome.Unknown:
+            return "#c6c6c6";
+        case TestOutcome.Pass:
+            return "#00af00";
+        case TestOutcome.PassWithStderr:
+            return "#5faf00";
+        case TestOutcome.Failure:
+        case TestOutcome.Text:
+            return "#ff0000";
+        case TestOutcome.Audio:
+            return "#ff8700";
+        case TestOutcome.ImagePlusText:
+            return "#d70087";
+        case TestOutcome.Crash:
+            return "#af5f00";
+        case TestOutcome.Leak:
+            return "#af00ff";
+        case TestOutcome.Timeout:
+            return "#808000";
+        case TestOutcome.ImageOnlyFailure:
+            return "#005fff";
+        case TestOutcome.Slow:
+            return "#000000";
+        default:
+            throw new Error(`Unexpected outcome: ${TestOutcome[outcome]} (${outcome})`);
+    }
+}
+
+function renderOutcomeStyles(): string {
+    const rules = new Array<string>();
+    for (let key in TestOutcome) {
+        const outcome = TestOutcome[key];
+        if (typeof outcome != "number" || outcome == TestOutcome.DumpJSConsoleLogInStdErr) {
+            continue;
+        }
+        rules.push(`.outcome-${key} { background: ${testOutcomeToCssColor(outcome)}; }`);
+    }
+    return rules.join("\n");
+}
+
+const styles = `
+body { font-family: sans-serif; font-size: 14px; margin: 1em 2em; background: #fafafa; color: #222; }
+h1 { font-size: 1.4em; }
+.fetch-time { color: #777; }
+h2 { font-size: 1.2em; margin-top: 1.5em; }
+h3 { font-size: 1em; font-family: monospace; margin: 1em 0 0.3em; color: #555; }
+#filter { width: 30em; padding: 0.3em; font-size: 1em; }
+table { border-collapse: collapse; }
+tr.test:nth-child(odd) { background: #eee; }
+td { padding: 0.15em 0.6em; vertical-align: top; font-family: monospace; white-space: nowrap; }
+td.bugs a { color: #a0308a; }
+.expected-outcomes { color: #777; }
+.history span { display: inline-block; width: 1.1em; text-align: center; color: white; }
+.history a { text-decoration: none; }
+.history .retries { width: auto; outline: 1px solid #333; }
+.artifacts a { margin-right: 0.4em; }
+.first-failed { color: #555; font-family: sans-serif; }
+.bug-summary { color: #555; font-family: sans-serif; font-style: italic; }
+.triage { color: #8a6d00; font-family: sans-serif; }
+tr.bug-filed { opacity: 0.5; }
+.location { color: #999; }
+.hidden { display: none; }
+`;
+
+// Hides the tests that don't contain the text in the filter box, along with the groups left empty.
+const filterScript = `
+document.getElementById("filter").addEventListener("input", function (event) {
+    var query = event.target.value.toLowerCase();
+    var groups = document.querySelectorAll(".directory, .outcome");
+    Array.prototype.forEach.call(document.querySelectorAll("tr.test"), function (row) {
+        row.classList.toggle("hidden", row.getAttribute("data-search").indexOf(query) == -1);
+    });
+    Array.prototype.forEach.call(groups, function (group) {
+        group.classList.toggle("hidden", !group.querySelector("tr.test:not(.hidden)"));
+    });
+});
+`;
+
+function renderArtifactLinks(links: TestArtifactLink[]): string {
+    return links.map(link => `<a href="${escapeHtml(link.url)}">${escapeHtml(link.name)}</a>`).join(" ");
+}
+
+function renderTestRow(botTestsResults: BotsTestResults, testHistory: TestHistory, bugs: BugDatabase | null): string {
+    const expectation = testHistory.getExpectationWithDefault();
+
+    const bugLinks = expectation.bugIds
+        .map(bugId => {
+            const bug = bugs ? bugs.get(bugId) : undefined;
+            const status = bug && bug.resolution ? `${bug.status} ${bug.resolution}` : bug ? bug.status : "";
+            const tooltip = bug ? ` title="${escapeHtml(`${status}: ${bug.summary}`)}"` : "";
+            return `<a href="https://webkit.org/b/${bugId}"${tooltip}>webkit.org/b/${bugId}</a>`;
+        })
+        .join(" ");
+    const bugSummaries = openBugSummaries(bugs, testHistory.expectation);
+
+    const buildTypeConstraint = expectation.buildTypeConstraint != null
+        ? `[ ${BuildType[expectation.buildTypeConstraint]} ] `
+        : "";
+
+    const expectedOutcomes = `[ ${Array.from(expectation.expectedOutcomes.values())
+        .map(outcome => TestOutcome[outcome])
+        .join(" ")} ]`;
+
+    // Every cell links to the page of its build. Runs of the same revision are boxed together.
+    const historyCells = groupResultsByRevision(testHistory.lastResults).map(results => {
+        const cells = results.map(result => {
+            const build = buildLinksForResult(botTestsResults, result);
+            const tooltip = `${TestOutcome[result.outcome]} at r${result.webkitRevision} (build ${build.buildNumber})`;
+            return `<a href="${escapeHtml(build.buildUrl)}"><span class="outcome-${TestOutcome[result.outcome]}" ` +
+                `title="${escapeHtml(tooltip)}">${testOutcomeToLetter(result.outcome)}</span></a>`;
+        }).join("");
+        return results.length > 1 ? `<span class="retries">${cells}</span>` : cells;
+    }).join("");
+
+    // The first-failed message points to the build where the test started failing and its output there, e.g. to look
+    // at the first bad diff.
+    let failedRevisionHtml = escapeHtml(testHistory.constructFirstFailedRevisionMessage(botTestsResults) || "");
+    const failedBuild = failedRevisionHtml ? firstFailedBuild(botTestsResults, testHistory) : null;
+    if (failedBuild) {
+        failedRevisionHtml += `, first failed in <a href="${escapeHtml(failedBuild.buildUrl)}">build ${
+            failedBuild.buildNumber}</a> ${renderArtifactLinks(testArtifactLinks(botTestsResults,
+            testHistory.testPath, failedBuild.result))}`;
+    }
+
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const latestBuild = buildLinksForRevision(botTestsResults, latestRevision);
+    const latestArtifacts = renderArtifactLinks(testArtifactLinks(botTestsResults, testHistory.testPath,
+        testHistory.getTestResult(latestRevision)!).concat(latestBuild
+        ? [{name: "archive", url: latestBuild.resultsArchiveUrl}]
+        : []));
+
+    const searchText = [testHistory.testPath.toString()]
+        .concat(expectation.bugIds.map(bugId => `webkit.org/b/${bugId}`), bugSummaries)
+        .join(" ")
+        .toLowerCase();
+
+    const rowClass = testHistory.triage && testHistory.triage.status == "bug filed" ? "test bug-filed" : "test";
+    return `<tr class="${rowClass}" data-search="${escapeHtml(searchText)}">
+<td class="bugs">${bugLinks}</td>
+<td>${escapeHtml(buildTypeConstraint)}${escapeHtml(testHistory.testPath.baseName())} <span class="expected-outcomes">${
+        escapeHtml(expectedOutcomes)}</span></td>
+<td class="history">${historyCells}</td>
+<td class="artifacts">${latestArtifacts}</td>
+<td class="first-failed">${failedRevisionHtml}</td>
+<td class="bug-summary">${escapeHtml(bugSummaries.join("; "))}</td>
+<td class="location">${testHistory.expectation ? escapeHtml(testHistory.expectation.location()) : ""}</td>
+<td class="triage">${testHistory.triage ? escapeHtml(triageEntryToString(testHistory.triage)) : ""}</td>
+</tr>`;
+}
+
+/**
+ * Renders the gardening report as a self-contained HTML page, with the same grouping as the terminal report.
+ */
+export function renderHtmlReport(botTestsResults: BotsTestResults, testHistoriesWithInvalidExpectations: TestHistory[],
+                                 bugs: BugDatabase | null): string {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const latestBuild = buildLinksForRevision(botTestsResults, latestRevision);
+    const title = `Gardening report for ${botTestsResults.context.botsPlatformName}/r${latestRevision} (${
+        botTestsResults.buildNumbers[0]})`;
+
+    const sections = new Array<string>();
+    for (let [outcome, outcomeHistories] of groupTestHistoriesForReport(botTestsResults,
+        testHistoriesWithInvalidExpectations))
+    {
+        // Histories are already sorted by directory, so the groups come out in order.
+        const directories = Array.from(groupBy(outcomeHistories, history => history.testPath.dirName()).entries())
+            .map(([dirName, histories]) => `<div class="directory">
+<h3>${escapeHtml(dirName)}/</h3>
+<table>
+${histories.map(history => renderTestRow(botTestsResults, history, bugs)).join("\n")}
+</table>
+</div>`);
+
+        sections.push(`<section class="outcome">
+<h2>Unexpected ${TestOutcome[outcome]} (${outcomeHistories.length})</h2>
+${directories.join("\n")}
+</section>`);
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${styles}
+${renderOutcomeStyles()}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${latestBuild ? `<p class="fetch-time"><a href="${escapeHtml(latestBuild.buildUrl)}">Build page</a></p>` : ""}
+${botTestsResults.fetchTime
+    ? `<p class="fetch-time">Results fetched on ${escapeHtml(botTestsResults.fetchTime.toUTCString())}</p>`
+    : ""}
+<input id="filter" type="search" placeholder="Filter by test path or bug..." autofocus>
+${sections.join("\n")}
+<script>${filterScript}</script>
+</body>
+</html>
+`;
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+import {
+    BotsTestResults,
+    groupTestHistoriesForReport,
+    RevisionRange,
+    TestHistory,
+    TestOutcome
+} from "./main";
+import {BuildType} from "./contexts";
+import {buildLinksForResult, buildLinksForRevision, firstFailedBuild, testArtifactLinks} from "./build-links";
+
+/**
+ * Version of the JSON report schema described by the interfaces below.
+ *
+ * It must be increased whenever a field is removed or its meaning changes. Adding fields is backwards compatible and
+ * doesn't need a new version.
+ */
+export const jsonReportSchemaVersion = 3;
+
+export interface JsonReport {
+    schemaVersion: number;
+    context: {
+        id: string;
+        botsPlatformName: string;
+        platform: string;
+        buildType: string; // "Debug" or "Release"
+    };
+    latestRevision: number;
+    latestBuildNumber: number;
+    latestBuildUrl: string | null; // page of the latest build
+    resultsArchiveUrl: string | null; // layout-test-results of the latest build
+    webkitRevisions: number[]; // most recent first, once each
+    buildNumbers: number[]; // most recent first, buildNumbers[i] is the latest build that tested webkitRevisions[i]
+    fetchTime: string | null; // ISO 8601, when the results were downloaded
+    tests: JsonTestReport[]; // tests whose latest result does not match their expectation
+}
+
+export interface JsonTestReport {
+    testPath: string;
+    latestOutcome: string; // a TestOutcome name, e.g. "ImageOnlyFailure"
+    expectation: JsonExpectation | null; // null if no line covers the test, in which case it is expected to pass
+    history: JsonTestResult[]; // one per build, most recent first; revisions tested in several builds appear again
+    firstFailedRevisionRange: JsonRevisionRange;
+    firstFailedBuild: JsonBuild | null; // first build known to fail, null if it failed since before the history
+    artifacts: JsonArtifact[]; // output files of the test in the latest build
+    triage: JsonTriage | null; // null if no gardener triaged the test, or the triage expired
+}
+
+export interface JsonTriage {
+    status: string; // "investigating", "bug filed" or "ignored"
+    bugId: number | null;
+    note: string | null;
+    author: string;
+}
+
+export interface JsonExpectation {
+    file: string; // relative to LayoutTests, e.g. "platform/gtk/TestExpectations"
+    line: number; // 1-based
+    path: string; // the path in the line, may be a directory containing the test
+    outcomes: string[]; // TestOutcome names
+    bugIds: number[];
+    buildTypeConstraint: string | null; // "Debug", "Release" or null if the line applies to both
+}
+
+export interface JsonBuild {
+    revision: number;
+    buildNumber: number;
+    buildUrl: string;
+    artifacts: JsonArtifact[]; // output files of the test in the build
+}
+
+export interface JsonArtifact {
+    name: string; // e.g. "diff.txt"
+    url: string;
+}
+
+export interface JsonTestResult {
+    revision: number;
+    buildNumber: number;
+    buildUrl: string;
+    outcome: string; // a TestOutcome name
+    runTime: number | null; // in seconds
+}
+
+/**
+ * "revision": the test started failing exactly in `revision`.
+ * "range": the test started failing somewhere between `start` and `end`, both included.
+ * "long ago": the test was already failing in the oldest revision of the history.
+ * "never failed": the test matched its expectation in every revision of the history.
+ */
+export type JsonRevisionRange =
+    { kind: "revision", revision: number }
+    | { kind: "range", start: number, end: number }
+    | { kind: "long ago" | "never failed" };
+
+function revisionRangeToJson(revisionRange: RevisionRange): JsonRevisionRange {
+    if (typeof revisionRange == "string") {
+        return {kind: revisionRange};
+    } else if (typeof revisionRange == "number") {
+        return {kind: "revision", revision: revisionRange};
+    } else {
+        return {kind: "range", start: revisionRange.start, end: revisionRange.end};
+    }
+}
+
+function testHistoryToJson(botTestsResults: BotsTestResults, testHistory: TestHistory): JsonTestReport {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const expectation = testHistory.expectation;
+
+    let jsonExpectation: JsonExpectation | null = null;
+    if (expectation) {
+        jsonExpectation = {
+            file: expectation.filePath!,
+            line: expectation.lineNo,
+            path: expectation.testPath.toString(),
+            outcomes: Array.from(expectation.expectedOutcomes).map(outcome => TestOutcome[outcome]),
+            bugIds: expectation.bugIds,
+            buildTypeConstraint: expectation.buildTypeConstraint != null
+                ? BuildType[expectation.buildTypeConstraint]
+                : null,
+        };
+    }
+
+    const latestResult = testHistory.getTestResult(latestRevision)!;
+    const failedBuild = firstFailedBuild(botTestsResults, testHistory);
+    return {
+        testPath: testHistory.testPath.toString(),
+        latestOutcome: TestOutcome[latestResult.outcome],
+        expectation: jsonExpectation,
+        history: testHistory.lastResults.map(result => ({
+            revision: result.webkitRevision,
+            buildNumber: result.buildNumber,
+            buildUrl: buildLinksForResult(botTestsResults, result).buildUrl,
+            outcome: TestOutcome[result.outcome],
+            runTime: result.runTime,
+        })),
+        firstFailedRevisionRange: revisionRangeToJson(testHistory.findFirstFailedRevisionRange(botTestsResults)),
+        firstFailedBuild: failedBuild ? {
+            revision: failedBuild.webkitRevision,
+            buildNumber: failedBuild.buildNumber,
+            buildUrl: failedBuild.buildUrl,
+            artifacts: testArtifactLinks(botTestsResults, testHistory.testPath, failedBuild.result),
+        } : null,
+        artifacts: testArtifactLinks(botTestsResults, testHistory.testPath, latestResult),
+        triage: testHistory.triage ? {
+            status: testHistory.triage.status,
+            bugId: testHistory.triage.bugId,
+            note: testHistory.triage.note,
+            author: testHistory.triage.author,
+        } : null,
+    };
+}
+
+/**
+ * Builds the machine-readable version of the gardening report, with the tests in the same order as the terminal one.
+ */
+export function buildJsonReport(botTestsResults: BotsTestResults,
+                                testHistoriesWithInvalidExpectations: TestHistory[]): JsonReport {
+    const context = botTestsResults.context;
+    const latestBuild = buildLinksForRevision(botTestsResults, botTestsResults.webkitRevisions[0]);
+    const tests = new Array<JsonTestReport>();
+    for (let [_, outcomeHistories] of groupTestHistoriesForReport(botTestsResults,
+        testHistoriesWithInvalidExpectations))
+    {
+        for (let testHistory of outcomeHistories) {
+            tests.push(testHistoryToJson(botTestsResults, testHistory));
+        }
+    }
+
+    return {
+        schemaVersion: jsonReportSchemaVersion,
+        context: {
+            id: context.id,
+            botsPlatformName: context.botsPlatformName,
+            platform: context.platform,
+            buildType: BuildType[context.buildType],
+        },
+        latestRevision: botTestsResults.webkitRevisions[0],
+        latestBuildNumber: botTestsResults.buildNumbers[0],
+        latestBuildUrl: latestBuild ? latestBuild.buildUrl : null,
+        resultsArchiveUrl: latestBuild ? latestBuild.resultsArchiveUrl : null,
+        webkitRevisions: botTestsResults.webkitRevisions,
+        buildNumbers: botTestsResults.buildNumbers,
+        fetchTime: botTestsResults.fetchTime ? botTestsResults.fetchTime.toISOString() : null,
+        tests: tests,
+    };
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import {BotsTestResults, expectedOutcomeAccepts, Path, TestHistory, TestOutcome} from "./main";
+import {CommandLine, getOption} from "./command-line";
+
+/**
+ * Restricts the tests shown by a report. Tests must pass every filter that is set; filters with several values (e.g.
+ * several directories) accept tests matching any of them.
+ */
+export interface ReportFilters {
+    directories: Path[]; // empty for any directory
+    pathPattern: RegExp | null;
+    outcomes: Set<TestOutcome> | null; // latest outcome, Failure stands for any kind of failure like in expectations
+    bugIds: number[]; // empty for any bug
+    hasExpectation: boolean | null;
+    failedAfterRevision: number | null; // tests that started failing in a later revision
+}
+
+export const reportFilterOptionNames = ["dir", "match", "outcome", "bug", "expectation", "failed-after"];
+
+/**
+ * Option values may be repeated or separated by commas, e.g. `--outcome=Crash,Timeout --outcome=Failure`.
+ */
+function getListOption(commandLine: CommandLine, name: string): string[] {
+    return new Array<string>().concat(...(commandLine.options.get(name) || []).map(value => value.split(",")))
+        .map(value => value.trim())
+        .filter(value => value != "");
+}
+
+function parsePositiveInteger(optionName: string, value: string, allowedPrefix: RegExp): number {
+    const digits = value.replace(allowedPrefix, "");
+    if (!/^\d+$/.test(digits) || parseInt(digits) == 0) {
+        throw new Error(`Invalid --${optionName}: ${value}`);
+    }
+    return parseInt(digits);
+}
+
+/**
+ * Throws an Error with a message for the user if an option has an invalid value.
+ */
+export function parseReportFilters(commandLine: CommandLine): ReportFilters {
+    const filters: ReportFilters = {
+        directories: getListOption(commandLine, "dir")
+            .map(dir => new Path(dir.split("/").filter(entry => entry != ""))),
+        pathPattern: null,
+        outcomes: null,
+        bugIds: getListOption(commandLine, "bug").map(bug => parsePositiveInteger("bug", bug, /^webkit\.org\/b\//)),
+        hasExpectation: null,
+        failedAfterRevision: null,
+    };
+
+    const pattern = getOption(commandLine, "match");
+    if (pattern != null) {
+        try {
+            filters.pathPattern = new RegExp(pattern);
+        } catch (e) {
+            throw new Error(`Invalid --match regular expression: ${e.message}`);
+        }
+    }
+
+    const outcomeNames = getListOption(commandLine, "outcome");
+    if (outcomeNames.length > 0) {
+        filters.outcomes = new Set<TestOutcome>();
+        for (let outcomeName of outcomeNames) {
+            const outcome = TestOutcome[outcomeName as keyof typeof TestOutcome];
+            if (typeof outcome != "number") {
+                throw new Error(`Unknown outcome: ${outcomeName}`);
+            }
+            filters.outcomes.add(outcome);
+        }
+    }
+
+    const expectation = getOption(commandLine, "expectation");
+    if (expectation != null) {
+        if (expectation != "present" && expectation != "absent") {
+            throw new Error(`Invalid --expectation: ${expectation}, expected present or absent`);
+        }
+        filters.hasExpectation = expectation == "present";
+    }
+
+    const failedAfter = getOption(commandLine, "failed-after");
+    if (failedAfter != null) {
+        filters.failedAfterRevision = parsePositiveInteger("failed-after", failedAfter, /^r/);
+    }
+
+    return filters;
+}
+
+function startedFailingAfter(botTestsResults: BotsTestResults, testHistory: TestHistory, revision: number): boolean {
+    const range = testHistory.findFirstFailedRevisionRange(botTestsResults);
+    if (typeof range == "string") {
+        // "long ago" or "never failed"
+        return false;
+    }
+    // For ranges, the whole range must come after the revision to be sure.
+    return (typeof range == "number" ? range : range.start) > revision;
+}
+
+export function applyReportFilters(botTestsResults: BotsTestResults, testHistories: TestHistory[],
+                                   filters: ReportFilters): TestHistory[] {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    return testHistories.filter(testHistory => {
+        const testPath = testHistory.testPath;
+        const expectation = testHistory.expectation;
+        const latestResult = testHistory.getTestResult(latestRevision);
+        return (filters.directories.length == 0 || filters.directories.some(dir => dir.equalsOrContains(testPath)))
+            && (!filters.pathPattern || filters.pathPattern.test(testPath.toString()))
+            && (!filters.outcomes || (latestResult != null && Array.from(filters.outcomes)
+                .some(outcome => expectedOutcomeAccepts(outcome, latestResult.outcome))))
+            && (filters.bugIds.length == 0
+                || (expectation != null && expectation.bugIds.some(bugId => filters.bugIds.indexOf(bugId) != -1)))
+            && (filters.hasExpectation == null || (expectation != null) == filters.hasExpectation)
+            && (filters.failedAfterRevision == null
+                || startedFailingAfter(botTestsResults, testHistory, filters.failedAfterRevision));
+    });
+}
\ No newline at end of file
@@ -0,0 +1,181 @@
+import {BotsTestResults, RevisionRange, TestHistory, TestOutcome, TestResult} from "./main";
+import {BuildType} from "./contexts";
+import {sortedBy} from "./functional-utils";
+import {vtPadLeft} from "./vt-utils";
+
+// Number of most recent runs with a run time that are considered to tell how long a test takes now.
+const recentRunCount = 5;
+// Tests not marked as [ Slow ] whose recent run time is at least this fraction of the timeout are reported.
+const nearTimeoutRatio = 0.5;
+// Tests marked as [ Slow ] whose recent runs all took less than this fraction of the timeout are reported.
+const fastRatio = 0.2;
+// A run time jump must at least double the run time and add this many seconds, so noise in fast tests is ignored.
+const minJumpSeconds = 5;
+const minRunsBeforeJump = 3;
+
+export function defaultTimeoutSeconds(buildType: BuildType): number {
+    switch (buildType) {
+        case BuildType.Release:
+            return 30;
+        case BuildType.Debug:
+            return 60;
+    }
+}
+
+export interface SlowTestEntry {
+    testHistory: TestHistory;
+    recentRunTime: number; // median of the most recent runs, in seconds
+}
+
+export interface RunTimeJump {
+    testHistory: TestHistory;
+    revisionRange: RevisionRange; // where the test became slower
+    runTimeBefore: number; // mean in seconds
+    runTimeAfter: number; // mean in seconds
+}
+
+export interface SlowTestsReport {
+    timeoutSeconds: number;
+    nearTimeout: SlowTestEntry[]; // not marked as [ Slow ], slowest first
+    noLongerSlow: SlowTestEntry[]; // marked as [ Slow ], fastest first
+    runTimeJumps: RunTimeJump[]; // most recent jump first
+}
+
+function median(values: number[]): number {
+    const sorted = values.slice().sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 == 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Returns the results of runs that actually ran the test and reported how long it took, most recent first.
+ */
+function timedRuns(testHistory: TestHistory): TestResult[] {
+    return testHistory.lastResults.filter(result => result.runTime != null
+        && result.outcome != TestOutcome.NoData && result.outcome != TestOutcome.Skip);
+}
+
+function isMarkedSlow(testHistory: TestHistory): boolean {
+    return testHistory.expectation != null && testHistory.expectation.expectedOutcomes.has(TestOutcome.Slow);
+}
+
+/**
+ * Finds the point of the history where the run time increased the most, if it increased enough to be worth reporting.
+ */
+function findRunTimeJump(testHistory: TestHistory): RunTimeJump | null {
+    const runs = timedRuns(testHistory);
+    let bestJump: RunTimeJump | null = null;
+    for (let split = minRunsBeforeJump; split <= runs.length - minRunsBeforeJump; split++) {
+        // Several builds can run the same revision, so only split between different revisions.
+        if (runs[split].webkitRevision == runs[split - 1].webkitRevision) {
+            continue;
+        }
+        const runTimeAfter = mean(runs.slice(0, split).map(result => result.runTime!));
+        const runTimeBefore = mean(runs.slice(split).map(result => result.runTime!));
+        if (runTimeAfter < runTimeBefore * 2 || runTimeAfter - runTimeBefore < minJumpSeconds) {
+            continue;
+        }
+        if (bestJump && runTimeAfter - runTimeBefore <= bestJump.runTimeAfter - bestJump.runTimeBefore) {
+            continue;
+        }
+
+        const lastFastRevision = runs[split].webkitRevision;
+        const firstSlowRevision = runs[split - 1].webkitRevision;
+        bestJump = {
+            testHistory: testHistory,
+            revisionRange: firstSlowRevision - lastFastRevision == 1
+                ? firstSlowRevision
+                : {start: lastFastRevision + 1, end: firstSlowRevision},
+            runTimeBefore: runTimeBefore,
+            runTimeAfter: runTimeAfter,
+        };
+    }
+    return bestJump;
+}
+
+/**
+ * Uses the run times reported by the bots to find tests that may need to be marked as [ Slow ], tests that no longer
+ * need it and tests whose run time jumped at some revision, which often comes before they start timing out.
+ */
+export function findSlowTests(botTestsResults: BotsTestResults, timeoutSeconds: number): SlowTestsReport {
+    const nearTimeout = new Array<SlowTestEntry>();
+    const noLongerSlow = new Array<SlowTestEntry>();
+    const runTimeJumps = new Array<RunTimeJump>();
+
+    for (let testHistory of botTestsResults.testHistories) {
+        const recentRunTimes = timedRuns(testHistory).slice(0, recentRunCount).map(result => result.runTime!);
+        if (recentRunTimes.length == 0) {
+            continue;
+        }
+
+        const entry = {testHistory: testHistory, recentRunTime: median(recentRunTimes)};
+        if (isMarkedSlow(testHistory)) {
+            if (recentRunTimes.length == recentRunCount
+                && recentRunTimes.every(runTime => runTime < timeoutSeconds * fastRatio))
+            {
+                noLongerSlow.push(entry);
+            }
+        } else if (entry.recentRunTime >= timeoutSeconds * nearTimeoutRatio) {
+            nearTimeout.push(entry);
+        }
+
+        const jump = findRunTimeJump(testHistory);
+        if (jump) {
+            runTimeJumps.push(jump);
+        }
+    }
+
+    return {
+        timeoutSeconds: timeoutSeconds,
+        nearTimeout: sortedBy(nearTimeout, entry => [-entry.recentRunTime, entry.testHistory.testPath.toString()]),
+        noLongerSlow: sortedBy(noLongerSlow, entry => [entry.recentRunTime, entry.testHistory.testPath.toString()]),
+        runTimeJumps: sortedBy(runTimeJumps, jump => {
+            const range = jump.revisionRange;
+            return [-(typeof range == "number" ? range : typeof range == "string" ? 0 : range.end),
+                jump.testHistory.testPath.toString()];
+        }),
+    };
+}
+
+function formatSeconds(seconds: number): string {
+    return `${Math.round(seconds * 10) / 10}s`;
+}
+
+export function printSlowTestsReport(botTestsResults: BotsTestResults, report: SlowTestsReport) {
+    const colorReset = "\x1b[0m";
+    const allHistories = report.nearTimeout.concat(report.noLongerSlow).map(entry => entry.testHistory)
+        .concat(report.runTimeJumps.map(jump => jump.testHistory));
+    const testNameColumnWidth = allHistories.reduce((width, history) =>
+        Math.max(width, history.testPath.toString().length + 2), 40);
+
+    console.log(`\x1b[1;4mRun times in ${botTestsResults.context.botsPlatformName}/r${
+        botTestsResults.webkitRevisions[0]} (${botTestsResults.buildNumbers[0]}), timeout ${
+        formatSeconds(report.timeoutSeconds)}\x1b[21;24m`);
+
+    console.log();
+    console.log(`\x1b[1mClose to the timeout, not marked as [ Slow ]${colorReset}`);
+    for (let entry of report.nearTimeout) {
+        console.log(`  ${vtPadLeft(`${entry.testHistory.testPath}`, testNameColumnWidth)}${
+            vtPadLeft(formatSeconds(entry.recentRunTime), 8)}${entry.testHistory.historyString()}`);
+    }
+
+    console.log();
+    console.log(`\x1b[1mMarked as [ Slow ], now fast${colorReset}`);
+    for (let entry of report.noLongerSlow) {
+        console.log(`  ${vtPadLeft(`${entry.testHistory.testPath}`, testNameColumnWidth)}${
+            vtPadLeft(formatSeconds(entry.recentRunTime), 8)}\x1b[38;5;245m${
+            entry.testHistory.expectation!.location()}${colorReset}`);
+    }
+
+    console.log();
+    console.log(`\x1b[1mRun time jumps${colorReset}`);
+    for (let jump of report.runTimeJumps) {
+        console.log(`  ${vtPadLeft(`${jump.testHistory.testPath}`, testNameColumnWidth)}${
+            vtPadLeft(`${formatSeconds(jump.runTimeBefore)} -> ${formatSeconds(jump.runTimeAfter)}`, 16)}${
+            TestHistory.formatRevisionRangeString(jump.revisionRange)}`);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as path from "path";
+import {BotsTestResults, findTestsWithInvalidExpectations, TestHistory, TestOutcome} from "./main";
+import {TestContext} from "./contexts";
+import {makeDirectories} from "./fetch-results";
+import {sortedBy} from "./functional-utils";
+
+/**
+ * Every fetch is archived in `snapshots/<timestamp>/<context-id>/`, with the results JSON of the context in
+ * `results.json` and the TestExpectations files of its cascade under `expectations/`.
+ */
+export const snapshotsDir = `${__dirname}/snapshots`;
+
+function copyFileIfExists(sourcePath: string, destinationPath: string) {
+    if (fs.existsSync(sourcePath)) {
+        makeDirectories(path.dirname(destinationPath));
+        fs.writeFileSync(destinationPath, fs.readFileSync(sourcePath));
+    }
+}
+
+/**
+ * Snapshot names are timestamps that sort chronologically and are valid file names, e.g. "2018-11-05T09-30-00Z".
+ */
+function snapshotNameForTime(time: Date): string {
+    return time.toISOString().replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+}
+
+function sameFileContents(pathA: string, pathB: string): boolean {
+    const existsA = fs.existsSync(pathA);
+    if (existsA != fs.existsSync(pathB)) {
+        return false;
+    }
+    return !existsA || fs.readFileSync(pathA).equals(fs.readFileSync(pathB));
+}
+
+/**
+ * Whether the results and expectations of the context are the same as in its latest snapshot, e.g. because the server
+ * reported every file as not modified.
+ */
+function isUnchangedSinceLatestSnapshot(context: TestContext): boolean {
+    const latestSnapshotName = listSnapshots(context).pop();
+    if (!latestSnapshotName) {
+        return false;
+    }
+    const contextDir = `${snapshotsDir}/${latestSnapshotName}/${context.id}`;
+    return sameFileContents(context.resultsPath, `${contextDir}/results.json`)
+        && context.testExpectationPaths.every(expectationPath => sameFileContents(
+            `${context.expectationsDir}/${expectationPath}`, `${contextDir}/expectations/${expectationPath}`));
+}
+
+/**
+ * Copies the current results and expectations of the contexts into a new snapshot and returns its name. Contexts
+ * whose data did not change since their latest snapshot are left out, and if that is all of them no snapshot is made
+ * and null is returned.
+ */
+export function archiveSnapshot(contexts: TestContext[], time: Date = new Date()): string | null {
+    const changedContexts = contexts.filter(context => !isUnchangedSinceLatestSnapshot(context));
+    if (changedContexts.length == 0) {
+        return null;
+    }
+    const snapshotName = snapshotNameForTime(time);
+    for (let context of changedContexts) {
+        const contextDir = `${snapshotsDir}/${snapshotName}/${context.id}`;
+        copyFileIfExists(context.resultsPath, `${contextDir}/results.json`);
+        copyFileIfExists(`${context.resultsPath}.meta.json`, `${contextDir}/results.json.meta.json`);
+        for (let expectationPath of context.testExpectationPaths) {
+            copyFileIfExists(`${context.expectationsDir}/${expectationPath}`,
+                `${contextDir}/expectations/${expectationPath}`);
+        }
+    }
+    return snapshotName;
+}
+
+/**
+ * Returns the names of the snapshots that have data for the context, oldest first.
+ */
+export function listSnapshots(context: TestContext): string[] {
+    if (!fs.existsSync(snapshotsDir)) {
+        return [];
+    }
+    return fs.readdirSync(snapshotsDir)
+        .filter(name => fs.existsSync(`${snapshotsDir}/${name}/${context.id}/results.json`))
+        .sort();
+}
+
+/**
+ * Returns a copy of the context that reads its data from a snapshot.
+ */
+export function snapshotContext(context: TestContext, snapshotName: string): TestContext {
+    const contextDir = `${snapshotsDir}/${snapshotName}/${context.id}`;
+    return Object.assign({}, context, {
+        resultsPath: `${contextDir}/results.json`,
+        expectationsDir: `${contextDir}/expectations`,
+    });
+}
+
+export interface OutcomeChange {
+    testHistory: TestHistory; // in the newer snapshot
+    oldOutcome: TestOutcome;
+    newOutcome: TestOutcome;
+}
+
+export interface SnapshotDiff {
+    newUnexpected: TestHistory[]; // unexpected in the newer snapshot only
+    recovered: TestHistory[]; // unexpected in the older snapshot only, from the newer snapshot
+    noLongerRun: TestHistory[]; // unexpected in the older snapshot, without data in the newer one, from the older one
+    outcomeChanges: OutcomeChange[]; // unexpected in both, with a different latest outcome
+}
+
+function latestOutcome(botTestsResults: BotsTestResults, testHistory: TestHistory): TestOutcome {
+    return testHistory.getTestResult(botTestsResults.webkitRevisions[0])!.outcome;
+}
+
+/**
+ * Compares the tests whose latest result does not match their expectation in two snapshots of the same context.
+ */
+export function diffUnexpectedResults(oldResults: BotsTestResults, newResults: BotsTestResults): SnapshotDiff {
+    const oldUnexpected = new Map<string, TestHistory>();
+    for (let testHistory of findTestsWithInvalidExpectations(oldResults)) {
+        oldUnexpected.set(testHistory.testPath.toString(), testHistory);
+    }
+    const newUnexpected = new Map<string, TestHistory>();
+    for (let testHistory of findTestsWithInvalidExpectations(newResults)) {
+        newUnexpected.set(testHistory.testPath.toString(), testHistory);
+    }
+
+    const newTestHistories = new Map<string, TestHistory>();
+    for (let testHistory of newResults.testHistories) {
+        newTestHistories.set(testHistory.testPath.toString(), testHistory);
+    }
+
+    const diff: SnapshotDiff = {newUnexpected: [], recovered: [], noLongerRun: [], outcomeChanges: []};
+    for (let [testPath, testHistory] of newUnexpected.entries()) {
+        const oldTestHistory = oldUnexpected.get(testPath);
+        if (!oldTestHistory) {
+            diff.newUnexpected.push(testHistory);
+            continue;
+        }
+        const oldOutcome = latestOutcome(oldResults, oldTestHistory);
+        const newOutcome = latestOutcome(newResults, testHistory);
+        if (oldOutcome != newOutcome) {
+            diff.outcomeChanges.push({testHistory: testHistory, oldOutcome: oldOutcome, newOutcome: newOutcome});
+        }
+    }
+    for (let [testPath, oldTestHistory] of oldUnexpected.entries()) {
+        if (newUnexpected.has(testPath)) {
+            continue;
+        }
+        // Tests may disappear from the results, e.g. when they are removed or skipped, which is not a recovery.
+        const testHistory = newTestHistories.get(testPath);
+        if (testHistory && testHistory.matchesExpectation(newResults.webkitRevisions[0]) != null) {
+            diff.recovered.push(testHistory);
+        } else {
+            diff.noLongerRun.push(oldTestHistory);
+        }
+    }
+
+    const byPath = (testHistory: TestHistory) => [testHistory.testPath.toString()];
+    diff.newUnexpected = sortedBy(diff.newUnexpected, byPath);
+    diff.recovered = sortedBy(diff.recovered, byPath);
+    diff.noLongerRun = sortedBy(diff.noLongerRun, byPath);
+    diff.outcomeChanges = sortedBy(diff.outcomeChanges, change => byPath(change.testHistory));
+    return diff;
+}
+
+export function printSnapshotDiff(oldResults: BotsTestResults, newResults: BotsTestResults,
+                                  oldSnapshotName: string, newSnapshotName: string, diff: SnapshotDiff) {
+    const colorReset = "\x1b[0m";
+    const grey = "\x1b[38;5;245m";
+
+    console.log(`\x1b[1;4mChanges in ${newResults.context.botsPlatformName} from ${oldSnapshotName} (r${
+        oldResults.webkitRevisions[0]}) to ${newSnapshotName} (r${newResults.webkitRevisions[0]})\x1b[21;24m`);
+
+    console.log();
+    console.log(`\x1b[1mNew unexpected results (${diff.newUnexpected.length})${colorReset}`);
+    for (let testHistory of diff.newUnexpected) {
+        console.log(`  ${testHistory.testPath} ${TestOutcome[latestOutcome(newResults, testHistory)]}${grey}${
+            testHistory.expectation ? ` expected [ ${Array.from(testHistory.expectation.expectedOutcomes)
+                .map(outcome => TestOutcome[outcome]).join(" ")} ] by ${testHistory.expectation.location()}` : ""
+            }${colorReset}`);
+    }
+
+    console.log();
+    console.log(`\x1b[1mRecovered (${diff.recovered.length})${colorReset}`);
+    for (let testHistory of diff.recovered) {
+        // The test may match its expectation because it was fixed or because a line was added for it.
+        console.log(`  ${testHistory.testPath}${grey} ${TestOutcome[latestOutcome(newResults, testHistory)]}${
+            testHistory.expectation ? ` expected by ${testHistory.expectation.location()}` : ""}${colorReset}`);
+    }
+
+    console.log();
+    console.log(`\x1b[1mNo longer run (${diff.noLongerRun.length})${colorReset}`);
+    for (let testHistory of diff.noLongerRun) {
+        console.log(`  ${testHistory.testPath}${grey} was ${TestOutcome[latestOutcome(oldResults, testHistory)]}${
+            colorReset}`);
+    }
+
+    console.log();
+    console.log(`\x1b[1mOutcome changes (${diff.outcomeChanges.length})${colorReset}`);
+    for (let change of diff.outcomeChanges) {
+        console.log(`  ${change.testHistory.testPath} ${TestOutcome[change.oldOutcome]} -> ${
+            TestOutcome[change.newOutcome]}`);
+    }
+}
\ No newline at end of file
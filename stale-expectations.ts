@@ -0,0 +1,99 @@
+import {isPassingOutcome, LoadedContext, TestExpectation, TestOutcome, TestResult, ToStringMode} from "./main";
+import {ExpectationFile} from "./parse-expectations";
+import {sortedBy} from "./functional-utils";
+
+export interface StaleExpectation {
+    file: ExpectationFile;
+    expectation: TestExpectation;
+    testPaths: Set<string>; // tests covered by the expectation in any of the contexts
+    passingRunCount: number;
+}
+
+/**
+ * An expectation is stale when it expects something other than a pass, but every test it covers has passed in every
+ * revision it was run, in all the contexts where the expectation applies.
+ *
+ * Expectations that don't cover any test with data (e.g. because they are overridden by more specific ones or
+ * because the tests are not in the results JSON) can't be judged and are never reported.
+ */
+export function findStaleExpectations(loadedContexts: LoadedContext[]): StaleExpectation[] {
+    // Several contexts share the same files, so expectations are identified by file and line.
+    const staleExpectations = new Map<string, StaleExpectation>();
+    const disqualifiedKeys = new Set<string>();
+
+    for (let {expectationFiles, botTestsResults} of loadedContexts) {
+        const fileByExpectation = new Map<TestExpectation, ExpectationFile>();
+        for (let file of expectationFiles) {
+            for (let expectation of file.expectations) {
+                fileByExpectation.set(expectation, file);
+            }
+        }
+
+        for (let testHistory of botTestsResults.testHistories) {
+            const expectation = testHistory.expectation;
+            if (!expectation || !expectsNonPassingOutcome(expectation)) {
+                continue;
+            }
+            const file = fileByExpectation.get(expectation)!;
+            const key = expectation.location();
+
+            const resultsWithData = testHistory.lastResults.filter(hasData);
+            if (resultsWithData.length == 0) {
+                continue;
+            }
+            if (!resultsWithData.every(result => isPassingOutcome(result.outcome))) {
+                disqualifiedKeys.add(key);
+                continue;
+            }
+
+            if (!staleExpectations.has(key)) {
+                staleExpectations.set(key, {
+                    file: file,
+                    expectation: expectation,
+                    testPaths: new Set<string>(),
+                    passingRunCount: 0,
+                });
+            }
+            const staleExpectation = staleExpectations.get(key)!;
+            staleExpectation.testPaths.add(testHistory.testPath.toString());
+            staleExpectation.passingRunCount += resultsWithData.length;
+        }
+    }
+
+    return sortedBy(Array.from(staleExpectations.entries())
+            .filter(([key, _]) => !disqualifiedKeys.has(key))
+            .map(([_, staleExpectation]) => staleExpectation),
+        staleExpectation => [staleExpectation.file.path, staleExpectation.expectation.lineNo]);
+}
+
+function expectsNonPassingOutcome(expectation: TestExpectation): boolean {
+    if (expectation.expectedOutcomes.has(TestOutcome.Skip) || expectation.expectedOutcomes.has(TestOutcome.WontFix)) {
+        // Skipped tests have no recent data, and old passes don't make the skip unnecessary.
+        return false;
+    }
+    return Array.from(expectation.expectedOutcomes)
+        .some(outcome => outcome != TestOutcome.Pass && outcome != TestOutcome.Slow);
+}
+
+function hasData(result: TestResult): boolean {
+    return result.outcome != TestOutcome.NoData && result.outcome != TestOutcome.Skip;
+}
+
+export function printStaleExpectations(staleExpectations: StaleExpectation[]) {
+    const colorReset = "\x1b[0m";
+
+    console.log(`\x1b[1;4mStale expectations (${staleExpectations.length})\x1b[21;24m`);
+
+    let lastFilePath: string | null = null;
+    for (let {file, expectation, testPaths, passingRunCount} of staleExpectations) {
+        if (file.path != lastFilePath) {
+            console.log();
+            console.log(`\x1b[1m${file.path}\x1b[0m`);
+            lastFilePath = file.path;
+        }
+
+        const testCount = testPaths.size == 1 ? "1 test" : `${testPaths.size} tests`;
+        console.log(`  ${expectation.location()}  ${expectation.toString(ToStringMode.WithColors, expectation.testPath,
+            colorReset)}${colorReset}  \x1b[38;5;245m(${testCount}, ${passingRunCount} passing runs)${colorReset}`);
+    }
+}
\ No newline at end of file
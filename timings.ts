@@ -0,0 +1,27 @@
+// Time spent in every phase, in milliseconds, accumulated across contexts.
+const phaseTimes = new Map<string, number>();
+
+/**
+ * Runs `fn`, adding the time it takes to `phase`. Phases should not be nested, or the time is counted twice.
+ */
+export function measure<T>(phase: string, fn: () => T): T {
+    const start = process.hrtime();
+    try {
+        return fn();
+    } finally {
+        const [seconds, nanoseconds] = process.hrtime(start);
+        phaseTimes.set(phase, (phaseTimes.get(phase) || 0) + seconds * 1000 + nanoseconds / 1e6);
+    }
+}
+
+/**
+ * Prints the phases in the order they were first measured. Goes to stderr to not mix with the output of the command.
+ */
+export function printTimings() {
+    let total = 0;
+    for (let [phase, milliseconds] of phaseTimes.entries()) {
+        console.error(`${phase}: ${milliseconds.toFixed(1)} ms`);
+        total += milliseconds;
+    }
+    console.error(`total: ${total.toFixed(1)} ms`);
+}
\ No newline at end of file
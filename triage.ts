@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as os from "os";
+import {BotsTestResults, TestHistory, TestOutcome} from "./main";
+
+// Not named triage.json, which require("./triage") would load instead of triage.ts.
+export const triageStorePath = `${__dirname}/triage-store.json`;
+
+export type TriageStatus = "investigating" | "bug filed" | "ignored";
+
+/**
+ * What a gardener said about a test with unexpected results in a context. It applies while the test keeps the outcome
+ * it had when it was triaged and, for ignored tests, until the bot reaches `untilRevision`.
+ */
+export interface TriageEntry {
+    contextId: string;
+    testPath: string;
+    status: TriageStatus;
+    bugId: number | null; // only for "bug filed"
+    untilRevision: number | null; // only for "ignored"
+    note: string | null;
+    outcome: string; // TestOutcome name of the latest result when the test was triaged
+    revision: number; // latest revision when the test was triaged
+    author: string;
+    time: string; // ISO 8601
+}
+
+export interface TriageStore {
+    entries: TriageEntry[];
+}
+
+export function loadTriageStore(storePath: string = triageStorePath): TriageStore {
+    if (!fs.existsSync(storePath)) {
+        return {entries: []};
+    }
+    const store: TriageStore = JSON.parse(fs.readFileSync(storePath, "utf-8"));
+    if (!store || !Array.isArray(store.entries)) {
+        throw new Error(`${storePath}: expected an object with an "entries" array`);
+    }
+    return store;
+}
+
+export function saveTriageStore(store: TriageStore, storePath: string = triageStorePath) {
+    fs.writeFileSync(`${storePath}.tmp`, JSON.stringify(store, null, 2) + "\n");
+    fs.renameSync(`${storePath}.tmp`, storePath);
+}
+
+/**
+ * Text and audio failures used to be read as Failure, so entries written back then still say so.
+ */
+function isOldFailureName(entryOutcome: string, outcome: TestOutcome): boolean {
+    return entryOutcome == "Failure" && (outcome == TestOutcome.Text || outcome == TestOutcome.Audio);
+}
+
+/**
+ * Returns why the entry no longer applies, or null if it still does.
+ */
+export function triageEntryExpiry(botTestsResults: BotsTestResults, entry: TriageEntry): string | null {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const testHistory = botTestsResults.testHistories.find(history => history.testPath.toString() == entry.testPath);
+    const latestResult = testHistory ? testHistory.getTestResult(latestRevision) : null;
+    if (!latestResult) {
+        return "no results in the latest revision";
+    } else if (TestOutcome[latestResult.outcome] != entry.outcome
+        && !isOldFailureName(entry.outcome, latestResult.outcome)) {
+        return `outcome changed from ${entry.outcome} to ${TestOutcome[latestResult.outcome]}`;
+    } else if (entry.status == "ignored" && entry.untilRevision != null && latestRevision >= entry.untilRevision) {
+        return `r${entry.untilRevision} reached`;
+    }
+    return null;
+}
+
+/**
+ * Sets `triage` on the histories of the tests with an entry that still applies in the context.
+ */
+export function applyTriage(botTestsResults: BotsTestResults, store: TriageStore) {
+    const activeEntries = new Map<string, TriageEntry>();
+    for (let entry of store.entries) {
+        if (entry.contextId == botTestsResults.context.id && triageEntryExpiry(botTestsResults, entry) == null) {
+            activeEntries.set(entry.testPath, entry);
+        }
+    }
+    for (let testHistory of botTestsResults.testHistories) {
+        testHistory.triage = activeEntries.get(testHistory.testPath.toString()) || null;
+    }
+}
+
+/**
+ * Leaves out the tests ignored through triage, which the report and the browser hide until their entry expires. Other
+ * commands, e.g. `patch` or `compare`, still see them.
+ */
+export function withoutIgnoredTests(testHistories: TestHistory[]): TestHistory[] {
+    return testHistories.filter(testHistory => !(testHistory.triage && testHistory.triage.status == "ignored"));
+}
+
+/**
+ * Adds an entry for the test, replacing any previous one for the same context and test.
+ */
+export function setTriageEntry(store: TriageStore, botTestsResults: BotsTestResults, testHistory: TestHistory,
+                               status: TriageStatus, bugId: number | null, untilRevision: number | null,
+                               note: string | null) {
+    const latestRevision = botTestsResults.webkitRevisions[0];
+    const latestResult = testHistory.getTestResult(latestRevision);
+    if (!latestResult) {
+        throw new Error(`${testHistory.testPath} has no results in r${latestRevision}`);
+    }
+    removeTriageEntry(store, botTestsResults.context.id, testHistory.testPath.toString());
+    store.entries.push({
+        contextId: botTestsResults.context.id,
+        testPath: testHistory.testPath.toString(),
+        status: status,
+        bugId: bugId,
+        untilRevision: untilRevision,
+        note: note,
+        outcome: TestOutcome[latestResult.outcome],
+        revision: latestRevision,
+        author: process.env.USER || os.hostname(),
+        time: new Date().toISOString(),
+    });
+}
+
+export function removeTriageEntry(store: TriageStore, contextId: string, testPath: string): boolean {
+    const entryCount = store.entries.length;
+    store.entries = store.entries.filter(entry => !(entry.contextId == contextId && entry.testPath == testPath));
+    return store.entries.length != entryCount;
+}
+
+function triageStatusToString(entry: TriageEntry): string {
+    switch (entry.status) {
+        case "investigating":
+            return `investigating (${entry.author})`;
+        case "bug filed":
+            return `bug filed: webkit.org/b/${entry.bugId}`;
+        case "ignored":
+            return entry.untilRevision != null ? `ignored until r${entry.untilRevision}` : "ignored";
+    }
+}
+
+export function triageEntryToString(entry: TriageEntry): string {
+    const status = triageStatusToString(entry);
+    return entry.note ? `${status}: ${entry.note}` : status;
+}
+
+export function printTriageEntries(botTestsResults: BotsTestResults, store: TriageStore) {
+    const entries = store.entries.filter(entry => entry.contextId == botTestsResults.context.id);
+    console.log(`\x1b[1;4mTriaged tests in ${botTestsResults.context.botsPlatformName}\x1b[21;24m`);
+    console.log();
+    for (let entry of entries) {
+        const expiry = triageEntryExpiry(botTestsResults, entry);
+        console.log(`${entry.testPath} ${entry.outcome}  ${triageEntryToString(entry)}\x1b[38;5;245m  r${
+            entry.revision}, ${entry.time.slice(0, 10)}${expiry ? `, expired: ${expiry}` : ""}\x1b[0m`);
+    }
+    if (entries.length == 0) {
+        console.log("No triaged tests.");
+    }
+}
\ No newline at end of file
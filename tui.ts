@@ -0,0 +1,540 @@
+import {
+    BotsTestResults,
+    groupTestHistoriesForReport,
+    LoadedContext,
+    TestHistory,
+    TestOutcome,
+    testOutcomeToColor,
+} from "./main";
+import {groupBy} from "./functional-utils";
+import {VtLine, vtPadLeft, vtTruncate} from "./vt-utils";
+import {suggestExpectationLine} from "./expectations-patch";
+import {formatDataAge} from "./fetch-results";
+import {triageEntryToString} from "./triage";
+import {firstFailedBuild} from "./build-links";
+
+const colorReset = "\x1b[0m";
+const selectedBgColor = "\x1b[48;5;24m";
+const headerBgColor = "\x1b[48;5;237m";
+const greyFg = "\x1b[38;5;245m";
+const detailPaneHeight = 10;
+const historyCellWidth = 28;
+
+type Row =
+    {kind: "outcome", outcome: TestOutcome, testCount: number}
+    | {kind: "directory", key: string, dirName: string, testHistories: TestHistory[]}
+    | {kind: "test", testHistory: TestHistory, directoryKey: string};
+
+interface DirectoryGroup {
+    key: string; // outcome and directory, as the same directory may appear under several outcomes
+    dirName: string;
+    testHistories: TestHistory[];
+}
+
+interface OutcomeGroup {
+    outcome: TestOutcome;
+    directories: DirectoryGroup[];
+}
+
+/**
+ * Interactive version of the gardening report: the same outcome and directory groups, with a cursor, collapsible
+ * directories, a pane with the details of the selected test and incremental search.
+ */
+class ReportBrowser {
+    private outcomeGroups: OutcomeGroup[];
+    private collapsedDirectories = new Set<string>();
+    private markedTests = new Set<TestHistory>();
+    private rows: Row[] = [];
+    private cursor = 0;
+    private scrollTop = 0;
+    private statusMessage = "";
+    // Set while typing a search, with the cursor position to go back to if it's cancelled.
+    private searchInput: {query: string, startCursor: number} | null = null;
+    private lastQuery = "";
+
+    constructor(private loadedContext: LoadedContext, testHistories: TestHistory[]) {
+        const botTestsResults = loadedContext.botTestsResults;
+        this.outcomeGroups = groupTestHistoriesForReport(botTestsResults, testHistories)
+            .map(([outcome, outcomeHistories]) => ({
+                outcome: outcome,
+                directories: Array.from(groupBy(outcomeHistories, history => history.testPath.dirName()).entries())
+                    .map(([dirName, histories]) => ({
+                        key: `${TestOutcome[outcome]}:${dirName}`,
+                        dirName: dirName,
+                        testHistories: histories,
+                    })),
+            }));
+        this.updateRows();
+    }
+
+    private get botTestsResults(): BotsTestResults {
+        return this.loadedContext.botTestsResults;
+    }
+
+    private updateRows() {
+        const selectedRow = this.rows[this.cursor];
+        this.rows = [];
+        for (let outcomeGroup of this.outcomeGroups) {
+            this.rows.push({
+                kind: "outcome",
+                outcome: outcomeGroup.outcome,
+                testCount: outcomeGroup.directories.reduce((count, group) => count + group.testHistories.length, 0),
+            });
+            for (let directory of outcomeGroup.directories) {
+                this.rows.push({
+                    kind: "directory",
+                    key: directory.key,
+                    dirName: directory.dirName,
+                    testHistories: directory.testHistories,
+                });
+                if (!this.collapsedDirectories.has(directory.key)) {
+                    for (let testHistory of directory.testHistories) {
+                        this.rows.push({kind: "test", testHistory: testHistory, directoryKey: directory.key});
+                    }
+                }
+            }
+        }
+        // Keep the cursor on the same row if it's still visible
+        if (selectedRow) {
+            const newIndex = this.rows.findIndex(row => rowsEqual(row, selectedRow));
+            if (newIndex != -1) {
+                this.cursor = newIndex;
+            }
+        }
+        this.cursor = Math.max(0, Math.min(this.cursor, this.rows.length - 1));
+    }
+
+    private listHeight(): number {
+        // Title, separator before the detail pane and status line
+        return Math.max(1, (process.stdout.rows || 24) - detailPaneHeight - 3);
+    }
+
+    private moveCursor(delta: number) {
+        this.cursor = Math.max(0, Math.min(this.rows.length - 1, this.cursor + delta));
+    }
+
+    private moveToNextRow(predicate: (row: Row) => boolean, direction: 1 | -1) {
+        for (let i = this.cursor + direction; i >= 0 && i < this.rows.length; i += direction) {
+            if (predicate(this.rows[i])) {
+                this.cursor = i;
+                return;
+            }
+        }
+    }
+
+    private setCollapsed(directoryKey: string, collapsed: boolean) {
+        if (collapsed) {
+            this.collapsedDirectories.add(directoryKey);
+        } else {
+            this.collapsedDirectories.delete(directoryKey);
+        }
+        const row = this.rows[this.cursor];
+        if (row.kind == "test" && collapsed) {
+            // The row of the test is about to disappear, select its directory instead.
+            this.cursor = this.rows.findIndex(other => other.kind == "directory" && other.key == directoryKey);
+        }
+        this.updateRows();
+    }
+
+    private setAllCollapsed(collapsed: boolean) {
+        for (let outcomeGroup of this.outcomeGroups) {
+            for (let directory of outcomeGroup.directories) {
+                if (collapsed) {
+                    this.collapsedDirectories.add(directory.key);
+                } else {
+                    this.collapsedDirectories.delete(directory.key);
+                }
+            }
+        }
+        const row = this.rows[this.cursor];
+        if (row && row.kind == "test" && collapsed) {
+            this.cursor = this.rows.findIndex(other => other.kind == "directory" && other.key == row.directoryKey);
+        }
+        this.updateRows();
+    }
+
+    /**
+     * Selects the next test whose path contains the query, expanding its directory if needed. With `includeCurrent`,
+     * the test at `fromCursor` itself may be selected.
+     */
+    private search(query: string, fromCursor: number, direction: 1 | -1, includeCurrent = false): boolean {
+        if (query == "") {
+            return false;
+        }
+        const allTests = new Array<{testHistory: TestHistory, directoryKey: string}>();
+        for (let outcomeGroup of this.outcomeGroups) {
+            for (let directory of outcomeGroup.directories) {
+                for (let testHistory of directory.testHistories) {
+                    allTests.push({testHistory: testHistory, directoryKey: directory.key});
+                }
+            }
+        }
+        const currentRow = this.rows[fromCursor];
+        const start = currentRow && currentRow.kind == "test"
+            ? allTests.findIndex(test => test.testHistory == currentRow.testHistory)
+            : -1;
+        const lowerCaseQuery = query.toLowerCase();
+        for (let i = includeCurrent && start != -1 ? 0 : 1; i <= allTests.length; i++) {
+            const index = ((start + i * direction) % allTests.length + allTests.length) % allTests.length;
+            const test = allTests[index];
+            if (test.testHistory.testPath.toString().toLowerCase().indexOf(lowerCaseQuery) != -1) {
+                this.collapsedDirectories.delete(test.directoryKey);
+                this.updateRows();
+                this.cursor = this.rows.findIndex(row => row.kind == "test" && row.testHistory == test.testHistory);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Tests affected by the copy and mark keys: the marked tests if there are any, otherwise the tests of the selected
+     * row.
+     */
+    private selectedTests(): TestHistory[] {
+        if (this.markedTests.size > 0) {
+            return this.testsInReportOrder().filter(testHistory => this.markedTests.has(testHistory));
+        }
+        const row = this.rows[this.cursor];
+        return row ? rowTests(this.outcomeGroups, row) : [];
+    }
+
+    private testsInReportOrder(): TestHistory[] {
+        const tests = new Array<TestHistory>();
+        for (let outcomeGroup of this.outcomeGroups) {
+            for (let directory of outcomeGroup.directories) {
+                Array.prototype.push.apply(tests, directory.testHistories);
+            }
+        }
+        return tests;
+    }
+
+    private toggleMark() {
+        const row = this.rows[this.cursor];
+        if (!row) {
+            return;
+        }
+        const tests = rowTests(this.outcomeGroups, row);
+        const mark = tests.some(testHistory => !this.markedTests.has(testHistory));
+        for (let testHistory of tests) {
+            if (mark) {
+                this.markedTests.add(testHistory);
+            } else {
+                this.markedTests.delete(testHistory);
+            }
+        }
+        this.moveCursor(1);
+    }
+
+    private copySuggestedLines() {
+        const lines = this.selectedTests()
+            .map(testHistory => suggestExpectationLine(this.botTestsResults, this.loadedContext.expectationFiles,
+                testHistory))
+            .filter(line => line != null);
+        if (lines.length == 0) {
+            this.statusMessage = "Nothing to copy";
+            return;
+        }
+        // OSC 52 asks the terminal to set the clipboard, it also works over SSH.
+        process.stdout.write(`\x1b]52;c;${Buffer.from(lines.join("\n") + "\n").toString("base64")}\x07`);
+        this.statusMessage = `Copied ${lines.length} ${lines.length == 1 ? "line" : "lines"} to the clipboard`;
+    }
+
+    handleKey(key: string): boolean {
+        this.statusMessage = "";
+        if (this.searchInput) {
+            this.handleSearchKey(this.searchInput, key);
+            return true;
+        }
+
+        const row = this.rows[this.cursor];
+        switch (key) {
+            case "q":
+            case "\x03": // Ctrl+C
+                return false;
+            case "j":
+            case "\x1b[B":
+                this.moveCursor(1);
+                break;
+            case "k":
+            case "\x1b[A":
+                this.moveCursor(-1);
+                break;
+            case "\x1b[6~": // Page Down
+            case "\x06": // Ctrl+F
+                this.moveCursor(this.listHeight());
+                break;
+            case "\x1b[5~": // Page Up
+            case "\x02": // Ctrl+B
+                this.moveCursor(-this.listHeight());
+                break;
+            case "g":
+            case "\x1b[H":
+            case "\x1b[1~":
+                this.cursor = 0;
+                break;
+            case "G":
+            case "\x1b[F":
+            case "\x1b[4~":
+                this.cursor = this.rows.length - 1;
+                break;
+            case "]":
+                this.moveToNextRow(other => other.kind == "directory", 1);
+                break;
+            case "[":
+                this.moveToNextRow(other => other.kind == "directory", -1);
+                break;
+            case "}":
+                this.moveToNextRow(other => other.kind == "outcome", 1);
+                break;
+            case "{":
+                this.moveToNextRow(other => other.kind == "outcome", -1);
+                break;
+            case "h":
+            case "\x1b[D":
+                if (row && row.kind != "outcome") {
+                    this.setCollapsed(row.kind == "directory" ? row.key : row.directoryKey, true);
+                }
+                break;
+            case "l":
+            case "\x1b[C":
+            case "\r":
+                if (row && row.kind == "directory") {
+                    this.setCollapsed(row.key, !this.collapsedDirectories.has(row.key) && key == "\r");
+                }
+                break;
+            case "c":
+                this.setAllCollapsed(true);
+                break;
+            case "e":
+                this.setAllCollapsed(false);
+                break;
+            case " ":
+                this.toggleMark();
+                break;
+            case "u":
+                this.markedTests.clear();
+                break;
+            case "y":
+                this.copySuggestedLines();
+                break;
+            case "/":
+                this.searchInput = {query: "", startCursor: this.cursor};
+                break;
+            case "n":
+            case "N":
+                if (!this.search(this.lastQuery, this.cursor, key == "n" ? 1 : -1)) {
+                    this.statusMessage = this.lastQuery ? `Not found: ${this.lastQuery}` : "No previous search";
+                }
+                break;
+        }
+        return true;
+    }
+
+    private handleSearchKey(searchInput: {query: string, startCursor: number}, key: string) {
+        if (key == "\r") {
+            this.lastQuery = searchInput.query;
+            this.searchInput = null;
+            return;
+        } else if (key == "\x1b" || key == "\x03") {
+            this.cursor = searchInput.startCursor;
+            this.searchInput = null;
+            return;
+        } else if (key == "\x7f" || key == "\b") {
+            searchInput.query = searchInput.query.slice(0, -1);
+        } else if (key.length == 1 && key >= " ") {
+            searchInput.query += key;
+        } else {
+            return;
+        }
+        // Search again from where the search started on every key, so the query can be refined.
+        if (!this.search(searchInput.query, searchInput.startCursor, 1, true)) {
+            this.cursor = searchInput.startCursor;
+        }
+    }
+
+    render() {
+        const width = process.stdout.columns || 80;
+        const height = this.listHeight();
+        if (this.cursor < this.scrollTop) {
+            this.scrollTop = this.cursor;
+        } else if (this.cursor >= this.scrollTop + height) {
+            this.scrollTop = this.cursor - height + 1;
+        }
+
+        const lines = new Array<VtLine>();
+        const latestRevision = this.botTestsResults.webkitRevisions[0];
+        const fetchTime = this.botTestsResults.fetchTime;
+        lines.push({
+            text: `\x1b[1mGardening report for ${this.botTestsResults.context.botsPlatformName}/r${latestRevision} (${
+                this.botTestsResults.buildNumbers[0]})\x1b[22m${fetchTime ? `, fetched ${formatDataAge(fetchTime)}` : ""}`,
+            bgColorCode: headerBgColor,
+        });
+        for (let i = this.scrollTop; i < this.scrollTop + height; i++) {
+            const row = this.rows[i];
+            const bgColorCode = i == this.cursor ? selectedBgColor : colorReset;
+            lines.push({text: row ? this.renderRow(row, bgColorCode) : "", bgColorCode: bgColorCode});
+        }
+        lines.push({text: "", bgColorCode: headerBgColor});
+        Array.prototype.push.apply(lines, this.renderDetailPane());
+        lines.push({text: this.renderStatusLine(), bgColorCode: headerBgColor});
+
+        let output = "";
+        lines.forEach((line, i) => {
+            output += `\x1b[${i + 1};1H${line.bgColorCode}${vtPadLeft(vtTruncate(line.text, width), width)}${colorReset}`;
+        });
+        process.stdout.write(output);
+    }
+
+    private renderRow(row: Row, bgColorCode: string): string {
+        switch (row.kind) {
+            case "outcome":
+                return `\x1b[1mUnexpected ${TestOutcome[row.outcome]} (${row.testCount})\x1b[22m`;
+            case "directory":
+                const arrow = this.collapsedDirectories.has(row.key) ? "▸" : "▾";
+                const markedCount = row.testHistories.filter(testHistory => this.markedTests.has(testHistory)).length;
+                return `  ${arrow} ${row.dirName}/ ${greyFg}(${row.testHistories.length}${
+                    markedCount > 0 ? `, ${markedCount} marked` : ""})`;
+            case "test":
+                const testHistory = row.testHistory;
+                const expectation = testHistory.getExpectationWithDefault();
+                const expectedOutcomes = Array.from(expectation.expectedOutcomes)
+                    .map(outcome => TestOutcome[outcome]).join(" ");
+                return `    ${this.markedTests.has(testHistory) ? "*" : " "} ${vtPadLeft(testHistory.testPath.baseName(),
+                    50)} ${testHistory.historyString()}${bgColorCode} ${greyFg}[ ${expectedOutcomes} ]${
+                    testHistory.triage ? ` ${triageEntryToString(testHistory.triage)}` : ""}`;
+        }
+    }
+
+    private renderDetailPane(): VtLine[] {
+        const row = this.rows[this.cursor];
+        const lines = new Array<string>();
+        if (row && row.kind == "test") {
+            const testHistory = row.testHistory;
+            const expectation = testHistory.expectation;
+            lines.push(`\x1b[1m${testHistory.testPath}\x1b[22m`);
+            lines.push(expectation
+                ? `Expectation: ${expectation.location()}  ${greyFg}${expectation.toString(0, expectation.testPath,
+                    "")}${colorReset}`
+                : "Expectation: none, expected to pass");
+            const suggestedLine = suggestExpectationLine(this.botTestsResults, this.loadedContext.expectationFiles,
+                testHistory);
+            lines.push(`Suggested: ${suggestedLine || "-"}`);
+            const failedRevisionMessage = testHistory.constructFirstFailedRevisionMessage(this.botTestsResults);
+            if (failedRevisionMessage) {
+                const failedBuild = firstFailedBuild(this.botTestsResults, testHistory);
+                lines.push(failedBuild
+                    ? `${failedRevisionMessage}, first failed in build ${failedBuild.buildNumber}: ${failedBuild.buildUrl}`
+                    : failedRevisionMessage);
+            }
+
+            const width = process.stdout.columns || 80;
+            const cellsPerLine = Math.max(1, Math.floor(width / historyCellWidth));
+            const cells = testHistory.lastResults.map(result =>
+                vtPadLeft(`${testOutcomeToColor(result.outcome, "bg")} ${colorReset} r${result.webkitRevision} (${
+                    result.buildNumber}) ${TestOutcome[result.outcome]}`, historyCellWidth));
+            for (let i = 0; i < cells.length && lines.length < detailPaneHeight; i += cellsPerLine) {
+                lines.push(cells.slice(i, i + cellsPerLine).join(""));
+            }
+        } else if (row) {
+            const tests = rowTests(this.outcomeGroups, row);
+            lines.push(`${tests.length} ${tests.length == 1 ? "test" : "tests"}, press y to copy their suggested lines`);
+        }
+        while (lines.length < detailPaneHeight) {
+            lines.push("");
+        }
+        return lines.slice(0, detailPaneHeight).map(text => ({text: text, bgColorCode: colorReset}));
+    }
+
+    private renderStatusLine(): string {
+        if (this.searchInput) {
+            return `/${this.searchInput.query}\x1b[7m \x1b[27m`;
+        }
+        if (this.statusMessage) {
+            return this.statusMessage;
+        }
+        const marked = this.markedTests.size > 0 ? `${this.markedTests.size} marked  ` : "";
+        return `${marked}${greyFg}j/k move  [/] directory  {/} outcome  h/l collapse/expand  c/e all  space mark  ` +
+            `y copy line  / search  n/N next/prev  q quit`;
+    }
+}
+
+function rowsEqual(a: Row, b: Row): boolean {
+    if (a.kind == "outcome" && b.kind == "outcome") {
+        return a.outcome == b.outcome;
+    } else if (a.kind == "directory" && b.kind == "directory") {
+        return a.key == b.key;
+    } else if (a.kind == "test" && b.kind == "test") {
+        return a.testHistory == b.testHistory;
+    }
+    return false;
+}
+
+function rowTests(outcomeGroups: OutcomeGroup[], row: Row): TestHistory[] {
+    switch (row.kind) {
+        case "outcome":
+            const outcomeGroup = outcomeGroups.find(group => group.outcome == row.outcome)!;
+            return new Array<TestHistory>().concat(...outcomeGroup.directories.map(group => group.testHistories));
+        case "directory":
+            return row.testHistories;
+        case "test":
+            return [row.testHistory];
+    }
+}
+
+// Exit status of a process killed by each signal, 128 + the signal number.
+const signalExitCodes: [NodeJS.Signals, number][] = [["SIGHUP", 129], ["SIGINT", 130], ["SIGTERM", 143]];
+
+/**
+ * Takes over the terminal until the user quits. The terminal is restored however the process exits, including errors
+ * and signals.
+ */
+export function runReportBrowser(loadedContext: LoadedContext, testHistories: TestHistory[]) {
+    const stdin = process.stdin;
+    if (!stdin.isTTY || !process.stdout.isTTY || !stdin.setRawMode) {
+        throw new Error("The interactive mode needs a terminal");
+    }
+
+    const browser = new ReportBrowser(loadedContext, testHistories);
+    let terminalRestored = false;
+    const restoreTerminal = () => {
+        if (!terminalRestored) {
+            terminalRestored = true;
+            process.stdout.write("\x1b[0m\x1b[?25h\x1b[?1049l");
+            stdin.setRawMode!(false);
+        }
+    };
+    // Restores the terminal before an error propagates, so its message is not lost with the alternate screen.
+    const guarded = (fn: () => void) => {
+        try {
+            fn();
+        } catch (e) {
+            restoreTerminal();
+            throw e;
+        }
+    };
+    process.on("exit", restoreTerminal);
+    for (let [signal, exitCode] of signalExitCodes) {
+        process.on(signal, () => process.exit(exitCode));
+    }
+    // Alternate screen, hidden cursor
+    process.stdout.write("\x1b[?1049h\x1b[?25l\x1b[2J");
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf-8");
+    stdin.resume();
+    guarded(() => browser.render());
+
+    stdin.on("data", (data: string) => guarded(() => {
+        // Several keys may arrive at once, e.g. when pasting; escape sequences are kept together.
+        for (let key of data.match(/\x1b\[[0-9;]*[~A-Za-z]|\x1b|[\s\S]/g) || []) {
+            if (!browser.handleKey(key)) {
+                process.exit(0);
+            }
+        }
+        browser.render();
+    }));
+    process.stdout.on("resize", () => guarded(() => {
+        process.stdout.write("\x1b[2J");
+        browser.render();
+    }));
+}
\ No newline at end of file
@@ -33,4 +33,23 @@ export function printVtLines(lines: VtLine[], consoleWidth: number) {
             console.log(lines[i].bgColorCode + paddedText + nextLineColorCode);
         }
     }
+}
+
+/**
+ * Cuts a string to `maxWidth` visible characters, keeping its escape sequences.
+ */
+export function vtTruncate(str: string, maxWidth: number) {
+    let result = "";
+    let width = 0;
+    for (let i = 0; i < str.length; i++) {
+        const escapeMatch = /^\x1b.*?m/.exec(str.slice(i));
+        if (escapeMatch) {
+            result += escapeMatch[0];
+            i += escapeMatch[0].length - 1;
+        } else if (width < maxWidth) {
+            result += str[i];
+            width++;
+        }
+    }
+    return result;
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import {execFileSync} from "child_process";
+import {RevisionRange, TestHistory} from "./main";
+import {sortedBy} from "./functional-utils";
+
+export interface Commit {
+    hash: string;
+    svnRevision: number;
+    author: string;
+    title: string;
+    files: string[]; // relative to the root of the checkout
+}
+
+export interface SuspectCommit {
+    commit: Commit;
+    relatedFileCount: number; // files touched by the commit that are related to the failing tests
+}
+
+const maxGitOutputBytes = 256 * 1024 * 1024;
+
+function git(checkoutPath: string, args: string[]): string {
+    return execFileSync("git", ["-C", checkoutPath].concat(args), {
+        maxBuffer: maxGitOutputBytes,
+        stdio: ["ignore", "pipe", "pipe"],
+    }).toString("utf-8");
+}
+
+/**
+ * Throws an Error with a message for the user if the path is not a git checkout.
+ */
+export function checkWebKitCheckout(checkoutPath: string) {
+    try {
+        git(checkoutPath, ["rev-parse", "--git-dir"]);
+    } catch (e) {
+        throw new Error(`${checkoutPath}: not a git checkout`);
+    }
+}
+
+/**
+ * The trailer is the last `git-svn-id` line, others may be quoted, e.g. in a revert.
+ */
+function parseSvnRevision(commitMessage: string): number {
+    const matches = commitMessage.match(/^git-svn-id: \S*@\d+ /gm);
+    return matches ? parseInt(/@(\d+) $/.exec(matches[matches.length - 1])![1]) : NaN;
+}
+
+/**
+ * Returns the commits of the checkout for the SVN revisions in the range, both ends included, newest first. Commits
+ * are mapped to SVN revisions through the `git-svn-id` trailer git-svn adds to every commit message, so revisions
+ * missing from the checkout (e.g. commits to other branches) are just skipped.
+ */
+export function findCommitsInRevisionRange(checkoutPath: string, start: number, end: number): Commit[] {
+    const revisions = new Array<number>();
+    for (let revision = start; revision <= end; revision++) {
+        revisions.push(revision);
+    }
+    // Searching the whole history for every revision takes minutes in a WebKit checkout, so only the first match is
+    // searched for, usually close to the tip, and the range is then read from there.
+    const [newestHash, newestBody] = git(checkoutPath, [
+        "log", "-1", "-E", `--grep=^git-svn-id: [^ ]*@(${revisions.join("|")}) `, "--format=%H%x1f%b",
+    ]).split("\x1f");
+    if (!newestBody) {
+        return [];
+    }
+    // The match may be a later commit quoting a revision of the range, e.g. a revert. Either way, every revision has
+    // at most one commit, so the range ends within that many commits from the match.
+    const newestRevision = parseSvnRevision(newestBody);
+    const output = git(checkoutPath, [
+        "log", newestHash, `--max-count=${(newestRevision > end ? newestRevision : end) - start + 1}`,
+        "--name-only", "--format=%x1e%H%x1f%an%x1f%s%x1f%b%x1f",
+    ]);
+
+    const commits = new Array<Commit>();
+    for (let record of output.split("\x1e").slice(1)) {
+        const [hash, author, title, body, fileList] = record.split("\x1f");
+        const svnRevision = parseSvnRevision(body);
+        if (!(svnRevision >= start && svnRevision <= end)) {
+            // Past the range, or not from SVN (e.g. a merge)
+            continue;
+        }
+        commits.push({
+            hash: hash,
+            svnRevision: svnRevision,
+            author: author,
+            title: title,
+            files: fileList.split("\n").filter(line => line != ""),
+        });
+    }
+    return sortedBy(commits, commit => [-commit.svnRevision]);
+}
+
+/**
+ * Whether a file touched by a commit may explain the failure of a test: the test itself or a test or baseline in its
+ * directory, including platform-specific baselines, or a source file in a directory named like the directory of the
+ * test (e.g. Source/WebCore/dom/ for fast/dom/).
+ */
+function isFileRelatedToTest(filePath: string, testHistory: TestHistory): boolean {
+    // Baselines in LayoutTests/platform/<platform>/ mirror the layout of LayoutTests/.
+    const layoutTestsPath = filePath.replace(/^LayoutTests\/platform\/[^/]+\//, "LayoutTests/");
+    if (layoutTestsPath.startsWith(`LayoutTests/${testHistory.testPath.dirName()}/`)) {
+        return true;
+    }
+    const testDirName = testHistory.testPath.entries[testHistory.testPath.entries.length - 2];
+    return testDirName != undefined && !filePath.startsWith("LayoutTests/")
+        && filePath.split("/").slice(0, -1).indexOf(testDirName) != -1;
+}
+
+/**
+ * Returns the commits in the range where the tests started failing, the ones touching more files related to the tests
+ * first, then newest first. Ranges that are not known (e.g. "long ago") have no suspects.
+ */
+export function findSuspectCommits(checkoutPath: string, revisionRange: RevisionRange,
+                                   testHistories: TestHistory[]): SuspectCommit[] {
+    if (typeof revisionRange == "string") {
+        return [];
+    }
+    const [start, end] = typeof revisionRange == "number"
+        ? [revisionRange, revisionRange]
+        : [revisionRange.start, revisionRange.end];
+    const suspects = findCommitsInRevisionRange(checkoutPath, start, end).map(commit => ({
+        commit: commit,
+        relatedFileCount: commit.files
+            .filter(filePath => testHistories.some(testHistory => isFileRelatedToTest(filePath, testHistory)))
+            .length,
+    }));
+    return sortedBy(suspects, suspect => [-suspect.relatedFileCount, -suspect.commit.svnRevision]);
+}
\ No newline at end of file